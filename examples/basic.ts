@@ -1,15 +1,12 @@
-import { Swarm, Agent, Response } from '../src';
-import { defaultConfig } from '../src/config';
+import { Swarm, Agent } from '../src';
 
 /**
  * 基本示例 - 演示Swarm和Agent的基本使用
  * 简化版，不使用流式输出
  */
 async function main() {
-  // 创建Swarm实例，使用配置文件中的设置
-  const client = new Swarm({
-    apiKey: defaultConfig.apiKey
-  });
+  // 创建Swarm实例，API密钥等配置从 OPENAI_API_KEY 等环境变量或 tars-swarm.config.json 读取
+  const client = new Swarm();
   
   // 创建Agent
   const agent = new Agent({
@@ -23,10 +20,8 @@ async function main() {
     // 运行对话
     const response = await client.run(
       agent,
-      [{ role: "user", content: "TypeScript中如何定义一个接口？" }],
-      {},  // 空上下文变量
-      false // 明确关闭流式输出
-    ) as Response; // 类型断言，避免类型错误
+      [{ role: "user", content: "TypeScript中如何定义一个接口？" }]
+    );
     
     // 输出模型响应
     const lastMessage = response.messages[response.messages.length - 1];
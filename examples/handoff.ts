@@ -1,14 +1,12 @@
 import { Swarm, Agent, Handoff, Result, BuiltInRules } from '../src';
-import { defaultConfig } from '../src/config';
 
 /**
  * Handoff示例 - 演示Agent之间的握手转移
  * 简化版，不使用流式输出
  */
 async function main() {
-  // 创建Swarm实例，使用配置文件中的设置
+  // 创建Swarm实例，API密钥等配置从 OPENAI_API_KEY 等环境变量或 tars-swarm.config.json 读取
   const client = new Swarm({
-    apiKey: defaultConfig.apiKey,
     enableTracing: true // 启用追踪
   });
   
@@ -71,10 +69,8 @@ async function main() {
     // 第一轮对话 - 用户询问技术问题
     const response1 = await client.run(
       customerServiceAgent,
-      [{ role: "user", content: "我的账户登录不了，显示密码错误，但我确定密码是对的。" }],
-      {}, // 空上下文变量
-      false // 明确关闭流式输出
-    ) as { messages: any[]; agent: Agent; context_variables: Record<string, any> };
+      [{ role: "user", content: "我的账户登录不了，显示密码错误，但我确定密码是对的。" }]
+    );
     
     // 输出结果
     const lastMessage1 = response1.messages[response1.messages.length - 1];
@@ -91,9 +87,8 @@ async function main() {
         ...response1.messages,
         { role: "user", content: "我想了解如何重置密码。" }
       ],
-      response1.context_variables, // 传递上一轮对话的上下文变量
-      false // 明确关闭流式输出
-    ) as { messages: any[]; agent: Agent; context_variables: Record<string, any> };
+      { context_variables: response1.context_variables } // 传递上一轮对话的上下文变量
+    );
     
     // 输出结果
     const lastMessage2 = response2.messages[response2.messages.length - 1];
@@ -1,5 +1,4 @@
 import { Swarm, Agent, Handoff, Result, BuiltInRules } from '../src';
-import { defaultConfig } from '../src/config';
 
 /**
  * 客服中心示例 - 演示多语言客服Agent路由系统
@@ -8,7 +7,6 @@ import { defaultConfig } from '../src/config';
 async function main() {
   // 创建Swarm实例作为客服中心
   const customerServiceCenter = new Swarm({
-    apiKey: defaultConfig.apiKey,
     enableTracing: true // 启用追踪
   });
   
@@ -73,10 +71,8 @@ async function main() {
     // 中文用户询问问题
     const chineseResponse = await customerServiceCenter.run(
       receptionAgent,
-      [{ role: "user", content: "你好，我的账户登录有问题，能帮我解决吗？" }],
-      {}, // 空上下文变量
-      false // 明确关闭流式输出
-    ) as { messages: any[]; agent: Agent; context_variables: Record<string, any> };
+      [{ role: "user", content: "你好，我的账户登录有问题，能帮我解决吗？" }]
+    );
     
     // 输出结果
     const lastChineseMessage = chineseResponse.messages[chineseResponse.messages.length - 1];
@@ -92,9 +88,8 @@ async function main() {
         ...chineseResponse.messages,
         { role: "user", content: "我想重置密码，但是没收到验证邮件" }
       ],
-      chineseResponse.context_variables, // 传递上一轮对话的上下文变量
-      false // 明确关闭流式输出
-    ) as { messages: any[]; agent: Agent; context_variables: Record<string, any> };
+      { context_variables: chineseResponse.context_variables } // 传递上一轮对话的上下文变量
+    );
     
     // 输出结果
     const lastChineseContinue = chineseContinue.messages[chineseContinue.messages.length - 1];
@@ -105,10 +100,8 @@ async function main() {
     console.log("发送英文请求到接待客服Tars...");
     const englishResponse = await customerServiceCenter.run(
       receptionAgent,
-      [{ role: "user", content: "Hello, I can't log into my account. Can you help me?" }],
-      {}, // 空上下文变量
-      false // 明确关闭流式输出
-    ) as { messages: any[]; agent: Agent; context_variables: Record<string, any> }; 
+      [{ role: "user", content: "Hello, I can't log into my account. Can you help me?" }]
+    );
 
     // 输出结果
     const lastEnglishMessage = englishResponse.messages[englishResponse.messages.length - 1];
@@ -121,9 +114,8 @@ async function main() {
         ...englishResponse.messages,
         { role: "user", content: "I need to reset my password but I'm not receiving the verification email" }
       ],
-      englishResponse.context_variables, // 传递上一轮对话的上下文变量
-      false // 明确关闭流式输出
-    ) as { messages: any[]; agent: Agent; context_variables: Record<string, any> };
+      { context_variables: englishResponse.context_variables } // 传递上一轮对话的上下文变量
+    );
     
     // 输出结果
     const lastEnglishContinue = englishContinue.messages[englishContinue.messages.length - 1];
@@ -134,10 +126,8 @@ async function main() {
     console.log("发送混合语言请求到接待客服Tars...");
     const mixedResponse = await customerServiceCenter.run(
       receptionAgent,
-      [{ role: "user", content: "Hello, 我需要帮助。My account 登录不了。" }],
-      {}, // 空上下文变量
-      false // 明确关闭流式输出
-    ) as { messages: any[]; agent: Agent; context_variables: Record<string, any> };
+      [{ role: "user", content: "Hello, 我需要帮助。My account 登录不了。" }]
+    );
     
     // 输出结果
     const lastMixedMessage = mixedResponse.messages[mixedResponse.messages.length - 1];
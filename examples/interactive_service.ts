@@ -1,5 +1,4 @@
-import { Swarm, Agent, Handoff, Result, BuiltInRules, Message, Response } from '../src';
-import { defaultConfig } from '../src/config';
+import { Swarm, Agent, Handoff, Result, BuiltInRules, Message } from '../src';
 import * as readline from 'readline';
 
 /**
@@ -9,7 +8,6 @@ import * as readline from 'readline';
 async function main() {
   // 创建Swarm实例作为客服中心
   const customerServiceCenter = new Swarm({
-    apiKey: defaultConfig.apiKey,
     enableTracing: true // 启用追踪
   });
   
@@ -128,13 +126,8 @@ async function main() {
           const response = await customerServiceCenter.run(
             currentAgent,
             updatedMessages,
-            currentContextVariables,
-            false,
-            Infinity,  // max_turns
-            true,      // execute_tools
-            null,      // model_override
-            false      // debug
-          ) as { messages: Message[]; agent: Agent; context_variables: Record<string, any> };
+            { context_variables: currentContextVariables }
+          );
           
           // 更新状态
           currentMessages = response.messages;
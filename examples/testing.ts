@@ -0,0 +1,60 @@
+import { Agent, Result, SwarmTestHarness } from '../src';
+
+/**
+ * 离线测试示例 - 使用脚本化的模拟模型验证Agent之间的转接
+ * 无需API密钥或网络连接
+ */
+async function main() {
+  const supportAgent = new Agent({
+    name: "技术支持",
+    instructions: "你是技术支持代理。"
+  });
+  
+  const receptionAgent = new Agent({
+    name: "接待",
+    instructions: "你是接待代理，技术问题请转给技术支持。",
+    functions: [
+      function transferToSupport(contextVariables: Record<string, any>) {
+        return new Result({
+          value: "正在转接技术支持...",
+          agent: supportAgent,
+          context_variables: { transferred: true }
+        });
+      }
+    ]
+  });
+  
+  // 脚本：第一回合调用转接函数，第二回合由技术支持回复
+  const harness = new SwarmTestHarness([
+    { tool_calls: [{ name: "transferToSupport" }] },
+    { content: "你好，我是技术支持，请描述你的问题。", chunks: ["你好，", "我是技术支持，", "请描述你的问题。"] }
+  ]);
+  
+  const result = await harness.run(receptionAgent, [{ role: "user", content: "我的电脑无法开机" }]);
+  
+  result
+    .expectToolCalled("transferToSupport")
+    .expectHandoffs(["技术支持"])
+    .expectAgent("技术支持")
+    .expectContext({ transferred: true })
+    .expectStopReason("final_answer")
+    .expectTraceEvent('function_return', data => data.name === "transferToSupport");
+  
+  console.log("非流式断言通过");
+  
+  // 同一脚本也可以用流式模式回放
+  harness.provider.reset();
+  const streamed = await harness.runStream(receptionAgent, [{ role: "user", content: "我的电脑无法开机" }]);
+  
+  streamed
+    .expectHandoffs(["技术支持"])
+    .expectStreamEvent('tool_call', event => event.tool_call.function.name === "transferToSupport");
+  
+  console.log("流式断言通过");
+}
+
+// 运行示例
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
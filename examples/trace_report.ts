@@ -0,0 +1,17 @@
+import path from 'path';
+import { loadTraceFromFile, saveTraceReport } from '../src/utils';
+
+/**
+ * 追踪报告示例 - 离线读取保存的追踪文件，生成交互式HTML报告
+ * 用法: npm run trace:report -- [追踪文件] [输出文件]
+ * 追踪文件可以是 saveTraceToFile 保存的 trace.json，也可以是 FileTraceExporter（format: 'run'）写入的JSON Lines
+ */
+function main() {
+  const tracePath = process.argv[2] ?? path.join(__dirname, '..', 'trace', 'trace.json');
+  const outputPath = process.argv[3] ?? path.join(path.dirname(tracePath), 'report.html');
+  
+  const trace = loadTraceFromFile(tracePath);
+  saveTraceReport(trace, outputPath, { title: `Trace Report: ${path.basename(tracePath)}` });
+}
+
+main();
@@ -1,16 +1,18 @@
-import { Swarm, Agent, Response, TraceVisualizer } from '../src';
-import { saveTraceToFile } from '../src/utils';
-import { defaultConfig } from '../src/config';
+import { Swarm, Agent, TraceVisualizer, FileTraceExporter } from '../src';
+import { loadTraceFromFile, saveTraceReport, saveTraceToFile } from '../src/utils';
 import path from 'path';
 
 /**
  * 跟踪示例 - 演示如何使用Tracing功能记录大模型交互
  */
 async function main() {
+  // 每次运行的完整追踪（含跨度）追加到 trace/runs.jsonl
+  const runsFilePath = path.join(__dirname, '..', 'trace', 'runs.jsonl');
+  
   // 创建Swarm实例，启用跟踪功能
   const client = new Swarm({
-    apiKey: defaultConfig.apiKey,
-    enableTracing: true // 显式启用跟踪
+    enableTracing: true, // 显式启用跟踪
+    traceSinks: [new FileTraceExporter({ path: runsFilePath, format: 'run' })]
   });
   
   // 创建Agent
@@ -25,9 +27,8 @@ async function main() {
     // 运行对话
     const response = await client.run(
       agent,
-      [{ role: "user", content: "如何使用TypeScript的装饰器？" }],
-      {}  // 空上下文变量
-    ) as Response;
+      [{ role: "user", content: "如何使用TypeScript的装饰器？" }]
+    );
     
     // 输出模型响应
     const lastMessage = response.messages[response.messages.length - 1];
@@ -40,6 +41,12 @@ async function main() {
       console.log("\n===== 跟踪事件 =====\n");
       console.log(consoleView);
       
+      // 层级跨度视图：run → agent → turn → model_call / tool_call
+      if (response.spans) {
+        console.log("\n===== 跨度 =====\n");
+        console.log(TraceVisualizer.generateSpanTree(response.spans));
+      }
+      
       // 保存跟踪事件到文件
       const traceFilePath = path.join(__dirname, '..', 'trace', 'trace.json');
       saveTraceToFile(response.trace, traceFilePath);
@@ -50,6 +57,10 @@ async function main() {
       require('fs').writeFileSync(htmlFilePath, htmlTimeline, 'utf8');
       console.log(`HTML时间线已保存到：${htmlFilePath}`);
       
+      // 交互式报告：用量汇总、切换图、跨度瀑布图和可折叠的完整事件内容
+      // 也可以离线生成：npm run trace:report -- trace/runs.jsonl
+      saveTraceReport(loadTraceFromFile(runsFilePath), path.join(__dirname, '..', 'trace', 'report.html'));
+      
       // 打印关键的模型调用信息
       console.log("\n===== 模型调用信息 =====\n");
       const modelCalls = response.trace.filter(event => event.type === 'model_call');
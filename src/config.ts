@@ -1,27 +1,201 @@
+import fs from 'fs';
+import path from 'path';
 import { OpenAI } from 'openai';
 
 /**
- * 获取OpenAI客户端实例
- * 基于os_config.py中的配置
- */
-export function getOpenAI(): OpenAI {
-  // 设置环境变量
-  process.env.OPENAI_API_KEY = "your key";
-  process.env.OPENAI_API_BASE = "your url";
-  
-  // 创建OpenAI客户端
-  const client = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-    baseURL: process.env.OPENAI_API_BASE
-  });
-  
-  return client;
+ * 默认配置文件名，位于当前工作目录
+ */
+export const DEFAULT_CONFIG_FILE = 'tars-swarm.config.json';
+
+/**
+ * 解析后的配置
+ */
+export interface ResolvedConfig {
+  apiKey?: string;
+  baseURL?: string;
+  /** 单次请求超时（毫秒） */
+  timeout?: number;
+  /** 客户端自动重试次数 */
+  maxRetries?: number;
+}
+
+/**
+ * 配置选项：显式传入的值优先于环境变量和配置文件
+ */
+export interface ConfigOptions extends ResolvedConfig {
+  /** 配置文件路径，默认读取 TARS_SWARM_CONFIG 环境变量或当前目录下的 tars-swarm.config.json */
+  configFile?: string;
+  /** 读取的环境变量，默认为 process.env */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * 配置错误
+ */
+export class ConfigError extends Error {
+  /** 出错的配置项及其来源 */
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`配置无效: ${issues.join('; ')}`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+const CONFIG_KEYS: Array<keyof ResolvedConfig> = ['apiKey', 'baseURL', 'timeout', 'maxRetries'];
+
+/**
+ * 读取配置文件
+ */
+export function loadConfigFile(filePath: string): ResolvedConfig {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new ConfigError([`无法读取配置文件 ${filePath}: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigError([`配置文件 ${filePath} 必须是JSON对象`]);
+  }
+
+  const unknownKeys = Object.keys(raw).filter(key => !CONFIG_KEYS.includes(key as keyof ResolvedConfig));
+  if (unknownKeys.length > 0) {
+    throw new ConfigError([`配置文件 ${filePath} 包含未知配置项: ${unknownKeys.join(', ')}`]);
+  }
+
+  return raw as ResolvedConfig;
+}
+
+/**
+ * 从环境变量读取配置，空字符串视为未设置
+ */
+function loadEnvConfig(env: Record<string, string | undefined>): ResolvedConfig {
+  const issues: string[] = [];
+  const config: Record<string, unknown> = {
+    apiKey: readEnv(env, 'OPENAI_API_KEY'),
+    baseURL: readEnv(env, 'OPENAI_BASE_URL') ?? readEnv(env, 'OPENAI_API_BASE'),
+    timeout: readEnvNumber(env, 'TARS_SWARM_TIMEOUT', issues),
+    maxRetries: readEnvNumber(env, 'TARS_SWARM_MAX_RETRIES', issues)
+  };
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+  return config as ResolvedConfig;
+}
+
+/**
+ * 读取环境变量，未设置或只有空白时返回undefined
+ */
+function readEnv(env: Record<string, string | undefined>, name: string): string | undefined {
+  const value = env[name]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * 读取数字类型的环境变量，不是有限数字时记录错误
+ */
+function readEnvNumber(env: Record<string, string | undefined>, name: string, issues: string[]): number | undefined {
+  const value = readEnv(env, name);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    issues.push(`环境变量 ${name} 必须是数字: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * 解析配置，优先级：显式选项 > 环境变量 > 配置文件
+ * 不会修改 process.env
+ */
+export function resolveConfig(options: ConfigOptions = {}): ResolvedConfig {
+  const env = options.env ?? process.env;
+
+  const configFile = options.configFile ?? readEnv(env, 'TARS_SWARM_CONFIG');
+  let fileConfig: ResolvedConfig = {};
+  if (configFile) {
+    fileConfig = loadConfigFile(configFile);
+  } else {
+    const defaultFile = path.resolve(process.cwd(), DEFAULT_CONFIG_FILE);
+    if (fs.existsSync(defaultFile)) {
+      fileConfig = loadConfigFile(defaultFile);
+    }
+  }
+
+  const envConfig = loadEnvConfig(env);
+  const resolved: ResolvedConfig = {};
+
+  for (const key of CONFIG_KEYS) {
+    const value = options[key] ?? envConfig[key] ?? fileConfig[key];
+    if (value !== undefined) {
+      (resolved as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  validateConfig(resolved);
+  return resolved;
 }
 
 /**
- * 获取默认配置对象
+ * 验证配置
  */
-export const defaultConfig = {
-  apiKey: "sk-3kvmL2pBvCiclBnrDcA0A5E3DfB44773Ac0b41C5947a0395",
-  apiBase: "http://116.63.86.12:3000/v1/"
-}; 
+export function validateConfig(config: ResolvedConfig): void {
+  const issues: string[] = [];
+
+  if (config.apiKey !== undefined && (typeof config.apiKey !== 'string' || config.apiKey.trim() === '')) {
+    issues.push('apiKey 必须是非空字符串');
+  }
+
+  if (config.baseURL !== undefined) {
+    try {
+      const url = new URL(config.baseURL);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        issues.push(`baseURL 必须使用 http 或 https 协议: ${config.baseURL}`);
+      }
+    } catch {
+      issues.push(`baseURL 不是有效的URL: ${config.baseURL}`);
+    }
+  }
+
+  if (config.timeout !== undefined && (typeof config.timeout !== 'number' || !(config.timeout > 0))) {
+    issues.push('timeout 必须是正数（毫秒）');
+  }
+
+  if (
+    config.maxRetries !== undefined &&
+    (typeof config.maxRetries !== 'number' || !Number.isInteger(config.maxRetries) || config.maxRetries < 0)
+  ) {
+    issues.push('maxRetries 必须是非负整数');
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+}
+
+/**
+ * 获取OpenAI客户端实例
+ */
+export function getOpenAI(options: ConfigOptions = {}): OpenAI {
+  const config = resolveConfig(options);
+
+  if (!config.apiKey) {
+    throw new ConfigError([
+      `未配置API密钥：请通过 apiKey 选项、OPENAI_API_KEY 环境变量或 ${DEFAULT_CONFIG_FILE} 配置文件提供`
+    ]);
+  }
+
+  return new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+    timeout: config.timeout,
+    maxRetries: config.maxRetries
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * 运行被取消或超过截止时间
+ */
+export class AbortError extends Error {
+  constructor(message: string = '运行已取消') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * 合并调用方的取消信号和截止时间，返回运行使用的信号
+ * 运行结束后需调用dispose清理截止时间定时器
+ */
+export function createRunSignal(
+  signal?: AbortSignal,
+  deadline?: Date | number
+): { signal?: AbortSignal; dispose: () => void } {
+  if (deadline === undefined) {
+    return { signal, dispose: () => undefined };
+  }
+
+  const deadlineTime = deadline instanceof Date ? deadline.getTime() : deadline;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason ?? new AbortError());
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = setTimeout(
+    () => controller.abort(new AbortError(`运行超过截止时间 ${new Date(deadlineTime).toISOString()}`)),
+    Math.max(0, deadlineTime - Date.now())
+  );
+  timer.unref?.();
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+/**
+ * 获取取消原因的描述
+ */
+export function getAbortReason(signal: AbortSignal): string {
+  const reason = signal.reason;
+  if (reason instanceof Error) {
+    return reason.message;
+  }
+  return reason !== undefined ? String(reason) : '运行已取消';
+}
+
+/**
+ * 信号已触发时抛出AbortError
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError(getAbortReason(signal));
+  }
+}
+
+/**
+ * 在信号触发时立即拒绝，不等待不响应取消的底层操作
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    promise.catch(() => undefined);
+    return Promise.reject(new AbortError(getAbortReason(signal)));
+  }
+
+  let onAbort: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(new AbortError(getAbortReason(signal)));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  return Promise.race([promise, aborted]).finally(() => signal.removeEventListener('abort', onAbort));
+}
+
+/**
+ * 可取消地遍历异步生成器，取消时通知生成器释放资源
+ */
+export async function* abortableIterable<T>(
+  iterator: AsyncGenerator<T, void, unknown>,
+  signal?: AbortSignal
+): AsyncGenerator<T, void, unknown> {
+  try {
+    while (true) {
+      const result = await abortable(iterator.next(), signal);
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    // 忽略清理时的错误
+    iterator.return(undefined).catch(() => undefined);
+  }
+}
+
+/**
+ * 等待指定毫秒数，信号触发时立即以AbortError拒绝
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError(getAbortReason(signal)));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError(getAbortReason(signal!)));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
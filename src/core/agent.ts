@@ -1,5 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
-import { AgentConfig, InstructionsType, FunctionType, GuardrailConfig, TraceEvent, InputValidationRule, OutputValidationRule } from './types';
+import { AgentConfig, InstructionsType, FunctionType, GuardrailConfig, TraceEvent, InputValidationRule, OutputValidationRule, ToolSchema, SafetyCheckTarget, SafetyViolation, ToolPolicy, Tool } from './types';
+import { SafetyChecker } from '../guardrails';
+import { isTool, toToolSchema } from './tool';
 
 /**
  * Agent类 - 代表一个LLM代理
@@ -51,102 +53,216 @@ export class Agent {
   /**
    * 为每个函数生成JSON Schema
    */
-  getFunctionSchemas(): any[] {
-    return this.functions.map(fn => {
-      // 如果函数已经是JSON Schema格式，直接返回
-      if (typeof fn !== 'function') {
-        return fn;
+  getFunctionSchemas(): Array<ToolSchema | Record<string, any> | string> {
+    return this.functions
+      .map(fn => toToolSchema(fn))
+      .filter(schema => typeof schema !== 'object' || !schema.function?.name || this.isToolAllowed(schema.function.name));
+  }
+  
+  /**
+   * 按工具守卫的允许和禁止列表判断工具能否调用
+   */
+  isToolAllowed(name: string): boolean {
+    const config = this.guardrails.tools;
+    if (!config) {
+      return true;
+    }
+    if (config.deny?.includes(name)) {
+      return false;
+    }
+    return !config.allow || config.allow.includes(name);
+  }
+  
+  /**
+   * 获取工具的守卫策略
+   */
+  getToolPolicy(name: string): ToolPolicy {
+    return this.guardrails.tools?.policies?.[name] ?? {};
+  }
+  
+  /**
+   * 判断工具调用是否需要人工审批，工具策略优先于工具定义
+   */
+  async toolRequiresApproval(
+    name: string,
+    args: Record<string, any>,
+    context_variables: Record<string, any>
+  ): Promise<boolean> {
+    const tool = this.functions.find((fn): fn is Tool => isTool(fn) && fn.name === name);
+    const requirement = this.getToolPolicy(name).requiresApproval ?? tool?.requiresApproval;
+    
+    if (typeof requirement === 'function') {
+      return Boolean(await Promise.resolve(requirement(args, context_variables)));
+    }
+    return requirement === true;
+  }
+  
+  /**
+   * 按工具策略验证参数
+   */
+  async validateToolArguments(
+    name: string,
+    args: Record<string, any>,
+    context_variables: Record<string, any>
+  ): Promise<{ valid: boolean; errors: string[]; rules: string[] }> {
+    const errors: string[] = [];
+    const rules: string[] = [];
+    
+    for (const rule of this.getToolPolicy(name).argumentValidation ?? []) {
+      try {
+        const isValid = await Promise.resolve(rule.validator(args, context_variables));
+        if (!isValid) {
+          errors.push(rule.errorMessage);
+          rules.push(rule.name);
+        }
+      } catch (error) {
+        errors.push(`验证规则 ${rule.name} 执行错误: ${error}`);
+        rules.push(rule.name);
       }
-      
-      // 提取函数名称
-      const fnName = fn.name;
-      
-      // 使用Function.toString()获取函数文本
-      const fnStr = fn.toString();
-      
-      // 简单的参数提取逻辑 - 实际应用中可能需要更复杂的解析
-      const paramMatch = fnStr.match(/\(([^)]*)\)/);
-      const params = paramMatch ? paramMatch[1].split(',').map(p => p.trim()).filter(p => p) : [];
-      
-      // 提取JSDoc注释作为描述（简化版）
-      const docMatch = fnStr.match(/\/\*\*([\s\S]*?)\*\//);
-      const description = docMatch ? docMatch[1].replace(/\s*\*\s*/g, ' ').trim() : '';
-      
-      // 构建基本的函数Schema
-      return {
-        type: "function",
-        function: {
-          name: fnName,
-          description: description || `Function ${fnName}`,
-          parameters: {
-            type: "object",
-            properties: params.reduce((acc: any, param: string) => {
-              if (param !== 'context_variables') { // 排除context_variables参数
-                acc[param] = { type: "string" }; // 默认假设所有参数都是字符串
-              }
-              return acc;
-            }, {}),
-            required: [] // 简化起见，不设置必需参数
-          }
+    }
+    
+    return {
+      valid: errors.length === 0,
+      errors,
+      rules
+    };
+  }
+  
+  /**
+   * 按工具策略验证结果
+   */
+  async validateToolResult(
+    name: string,
+    result: string,
+    args: Record<string, any>
+  ): Promise<{ valid: boolean; errors: string[]; rules: string[] }> {
+    const errors: string[] = [];
+    const rules: string[] = [];
+    
+    for (const rule of this.getToolPolicy(name).resultValidation ?? []) {
+      try {
+        const isValid = await Promise.resolve(rule.validator(result, args));
+        if (!isValid) {
+          errors.push(rule.errorMessage);
+          rules.push(rule.name);
         }
-      };
-    });
+      } catch (error) {
+        errors.push(`验证规则 ${rule.name} 执行错误: ${error}`);
+        rules.push(rule.name);
+      }
+    }
+    
+    return {
+      valid: errors.length === 0,
+      errors,
+      rules
+    };
+  }
+  
+  /**
+   * 执行工具策略和工具守卫的结果改写，返回写入消息历史的内容
+   */
+  async redactToolResult(name: string, result: string, args: Record<string, any>): Promise<string> {
+    let current = result;
+    
+    const redact = this.getToolPolicy(name).redactResult;
+    if (redact) {
+      current = await Promise.resolve(redact(current, args));
+    }
+    
+    const redactAll = this.guardrails.tools?.redactResult;
+    if (redactAll) {
+      current = await Promise.resolve(redactAll(current, name, args));
+    }
+    
+    return current;
   }
   
   /**
    * 验证输入内容
    */
-  async validateInput(input: string): Promise<{ valid: boolean; errors: string[] }> {
+  async validateInput(input: string): Promise<{ valid: boolean; errors: string[]; rules: string[] }> {
     if (!this.guardrails.inputValidation || this.guardrails.inputValidation.length === 0) {
-      return { valid: true, errors: [] };
+      return { valid: true, errors: [], rules: [] };
     }
     
     const errors: string[] = [];
+    const rules: string[] = [];
     
     for (const rule of this.guardrails.inputValidation) {
       try {
         const isValid = await Promise.resolve(rule.validator(input));
         if (!isValid) {
           errors.push(rule.errorMessage);
+          rules.push(rule.name);
         }
       } catch (error) {
         errors.push(`Validation error in rule ${rule.name}: ${error}`);
+        rules.push(rule.name);
       }
     }
     
     return {
       valid: errors.length === 0,
-      errors
+      errors,
+      rules
     };
   }
   
   /**
    * 验证输出内容
    */
-  async validateOutput(output: string): Promise<{ valid: boolean; errors: string[] }> {
+  async validateOutput(output: string): Promise<{ valid: boolean; errors: string[]; rules: string[] }> {
     if (!this.guardrails.outputValidation || this.guardrails.outputValidation.length === 0) {
-      return { valid: true, errors: [] };
+      return { valid: true, errors: [], rules: [] };
     }
     
     const errors: string[] = [];
+    const rules: string[] = [];
     
     for (const rule of this.guardrails.outputValidation) {
       try {
         const isValid = await Promise.resolve(rule.validator(output));
         if (!isValid) {
           errors.push(rule.errorMessage);
+          rules.push(rule.name);
         }
       } catch (error) {
         errors.push(`Validation error in rule ${rule.name}: ${error}`);
+        rules.push(rule.name);
       }
     }
     
     return {
       valid: errors.length === 0,
-      errors
+      errors,
+      rules
     };
   }
   
+  /**
+   * 执行安全检查，返回可能被改写的内容
+   */
+  async checkSafety(
+    content: string,
+    target: SafetyCheckTarget
+  ): Promise<{ content: string; blocked: boolean; violations: SafetyViolation[] }> {
+    if (!this.guardrails.safetyChecks || this.guardrails.safetyChecks.length === 0) {
+      return { content, blocked: false, violations: [] };
+    }
+    
+    return new SafetyChecker(this.guardrails.safetyChecks).enforce(content, target);
+  }
+  
+  /**
+   * 是否有作用于该对象且会改写或阻止内容的安全检查（action不是log）
+   */
+  hasEnforcingSafetyChecks(target: SafetyCheckTarget): boolean {
+    return (this.guardrails.safetyChecks ?? []).some(
+      rule => rule.action !== 'log' && (!rule.appliesTo || rule.appliesTo.includes(target))
+    );
+  }
+  
   /**
    * 添加跟踪事件
    */
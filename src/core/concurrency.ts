@@ -0,0 +1,27 @@
+/**
+ * 以有限并发执行异步任务，结果顺序与输入顺序一致
+ * 与Promise.allSettled相同，某个任务失败不影响其他任务，已完成任务的结果都会保留
+ */
+export async function settleWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  const workerCount = Math.max(1, Math.min(items.length, Number.isFinite(limit) ? Math.floor(limit) : items.length));
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
@@ -1,15 +1,17 @@
+import type { Agent } from './agent';
+
 /**
  * Result类用于封装函数调用的返回值
  * 支持返回值、新Agent和上下文变量
  */
 export class Result {
   value?: string;
-  agent?: any; // Agent类型，避免循环依赖
+  agent?: Agent;
   context_variables?: Record<string, any>;
 
   constructor(options: {
     value?: string;
-    agent?: any;
+    agent?: Agent;
     context_variables?: Record<string, any>;
   }) {
     this.value = options.value;
@@ -27,7 +29,7 @@ export class Result {
   /**
    * 创建一个只包含Agent的Result
    */
-  static withAgent(agent: any): Result {
+  static withAgent(agent: Agent): Result {
     return new Result({ agent });
   }
 
@@ -0,0 +1,201 @@
+import { JSONSchema, JSONSchemaType } from './types';
+
+/**
+ * Schema验证结果
+ */
+export interface SchemaValidationResult<T = any> {
+  valid: boolean;
+  errors: string[];
+  value: T;
+}
+
+/**
+ * 按JSON Schema验证并强制转换值
+ * 支持基本类型转换（如 "42" -> 42、"true" -> true），并为缺失的可选属性填充默认值
+ */
+export function validateSchema<T = any>(
+  schema: JSONSchema,
+  value: unknown,
+  path: string = ''
+): SchemaValidationResult<T> {
+  const errors: string[] = [];
+  const coerced = validateValue(schema, value, path || '$', errors);
+  return {
+    valid: errors.length === 0,
+    errors,
+    value: coerced as T
+  };
+}
+
+/**
+ * 验证单个值
+ */
+function validateValue(schema: JSONSchema, value: unknown, path: string, errors: string[]): unknown {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  let result = value;
+
+  if (types.length > 0) {
+    const matched = types
+      .map(type => coerceType(type, value))
+      .find(candidate => candidate.ok);
+
+    if (!matched) {
+      errors.push(`${path}: 应为 ${types.join(' | ')} 类型，实际为 ${describeType(value)}`);
+      return value;
+    }
+    result = matched.value;
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === result)) {
+    errors.push(`${path}: 必须是以下值之一: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof result === 'string') {
+    if (schema.minLength !== undefined && result.length < schema.minLength) {
+      errors.push(`${path}: 长度不能少于 ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined && result.length > schema.maxLength) {
+      errors.push(`${path}: 长度不能超过 ${schema.maxLength}`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(result)) {
+      errors.push(`${path}: 不匹配模式 ${schema.pattern}`);
+    }
+  }
+
+  if (typeof result === 'number') {
+    if (schema.minimum !== undefined && result < schema.minimum) {
+      errors.push(`${path}: 不能小于 ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && result > schema.maximum) {
+      errors.push(`${path}: 不能大于 ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(result) && schema.items) {
+    const items = schema.items;
+    result = result.map((item, index) => validateValue(items, item, `${path}[${index}]`, errors));
+  }
+
+  if (isPlainObject(result) && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+    result = validateObject(schema, result, path, errors);
+  }
+
+  return result;
+}
+
+/**
+ * 验证对象属性
+ */
+function validateObject(
+  schema: JSONSchema,
+  value: Record<string, unknown>,
+  path: string,
+  errors: string[]
+): Record<string, unknown> {
+  const properties = schema.properties || {};
+  const output: Record<string, unknown> = {};
+
+  for (const name of schema.required || []) {
+    if (value[name] === undefined && properties[name]?.default === undefined) {
+      errors.push(`${path}.${name}: 缺少必需参数`);
+    }
+  }
+
+  for (const [name, propertySchema] of Object.entries(properties)) {
+    if (value[name] !== undefined) {
+      output[name] = validateValue(propertySchema, value[name], `${path}.${name}`, errors);
+    } else if (propertySchema.default !== undefined) {
+      output[name] = propertySchema.default;
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    if (name in properties) {
+      continue;
+    }
+    if (schema.additionalProperties === false) {
+      errors.push(`${path}.${name}: 不允许的参数`);
+    } else if (typeof schema.additionalProperties === 'object') {
+      output[name] = validateValue(schema.additionalProperties, propertyValue, `${path}.${name}`, errors);
+    } else {
+      output[name] = propertyValue;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * 尝试将值转换为指定类型
+ */
+function coerceType(type: JSONSchemaType, value: unknown): { ok: boolean; value?: unknown } {
+  switch (type) {
+    case 'string':
+      if (typeof value === 'string') return { ok: true, value };
+      if (typeof value === 'number' || typeof value === 'boolean') return { ok: true, value: String(value) };
+      return { ok: false };
+
+    case 'number':
+    case 'integer': {
+      let num: number | undefined;
+      if (typeof value === 'number') {
+        num = value;
+      } else if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        num = Number(value);
+      }
+      if (num === undefined || !isFinite(num)) return { ok: false };
+      if (type === 'integer' && !Number.isInteger(num)) return { ok: false };
+      return { ok: true, value: num };
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') return { ok: true, value };
+      if (value === 'true' || value === 'false') return { ok: true, value: value === 'true' };
+      return { ok: false };
+
+    case 'null':
+      if (value === null) return { ok: true, value };
+      if (value === 'null') return { ok: true, value: null };
+      return { ok: false };
+
+    case 'array': {
+      const parsed = typeof value === 'string' ? tryParseJson(value) : value;
+      return Array.isArray(parsed) ? { ok: true, value: parsed } : { ok: false };
+    }
+
+    case 'object': {
+      const parsed = typeof value === 'string' ? tryParseJson(value) : value;
+      return isPlainObject(parsed) ? { ok: true, value: parsed } : { ok: false };
+    }
+
+    default:
+      return { ok: true, value };
+  }
+}
+
+/**
+ * 尝试解析JSON字符串
+ */
+function tryParseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 判断是否为普通对象
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 描述值的类型，用于错误信息
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
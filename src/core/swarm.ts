@@ -1,87 +1,305 @@
-import { OpenAI } from 'openai';
 import { Agent } from './agent';
 import { Result } from './result';
-import { Message, Response, SwarmConfig, ModelProvider, TraceEvent, FunctionType } from './types';
+import {
+  Message,
+  Response,
+  SwarmConfig,
+  ModelProvider,
+  ToolCall,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionChunk,
+  ContextVariables,
+  RunOptions,
+  StreamEvent,
+  StopReason,
+  SafetyCheckTarget,
+  OutputValidationPolicy,
+  PendingToolCall,
+  ToolDecision,
+  RunTrace,
+  TraceSink,
+  Usage,
+  PriceTable,
+  UsageBudget
+} from './types';
 import { Tracer } from '../tracing';
-import { v4 as uuidv4 } from 'uuid';
-import { getOpenAI, defaultConfig } from '../config';
-
-// 工具调用类型定义（从OpenAI类型中提取）
-interface ToolCall {
-  id: string;
-  type: string;
-  function: {
-    name: string;
-    arguments: string;
-  };
-}
+import { GuardrailViolationError, OutputValidationError, SafetyViolationError } from '../guardrails';
+import { createOpenAIProvider } from '../providers/openai';
+import { ProviderAttempt, ProviderCallOptions, ProviderRegistry, ResolvedProvider } from '../providers/registry';
+import { TokenBucketRateLimiter } from '../providers/rate-limit';
+import { createToolInvoker, ToolInvoker } from './tool';
+import { validateSchema } from './schema';
+import { settleWithConcurrency } from './concurrency';
+import { UsageTracker } from './usage';
+import { abortable, abortableIterable, createRunSignal, getAbortReason, throwIfAborted } from './abort';
 
 /**
  * Swarm类 - 用于编排Agent
  */
 export class Swarm {
-  private modelProvider: ModelProvider;
-  private tracer: Tracer;
+  private providers: ProviderRegistry;
+  private tracingEnabled: boolean;
+  private traceSinks: TraceSink[];
+  private toolConcurrency: number;
+  private pricing?: PriceTable;
+  private budget?: UsageBudget;
   
   constructor(options: SwarmConfig = {}) {
-    // 创建默认的OpenAI提供商或使用自定义提供商
+    // 创建提供商注册表，未配置任何提供商时使用默认的OpenAI提供商
+    this.providers = new ProviderRegistry({
+      providers: options.providers,
+      defaultProvider: options.defaultProvider,
+      routes: options.routes,
+      fallbacks: options.fallbacks,
+      timeout: options.providerTimeout,
+      retry: options.retry,
+      // 速率限制器属于Swarm实例，并发运行共享同一个令牌桶
+      rateLimiter: options.rateLimit && 'acquire' in options.rateLimit
+        ? options.rateLimit
+        : options.rateLimit ? new TokenBucketRateLimiter(options.rateLimit) : undefined
+    });
+    
     if (options.modelProvider) {
-      this.modelProvider = options.modelProvider;
-    } else {
-      // 使用config.ts中的getOpenAI函数获取OpenAI客户端
-      const openai = getOpenAI();
-      
-      this.modelProvider = {
-        id: 'openai',
-        createChatCompletion: (opts: any) => openai.chat.completions.create(opts),
-        // 简化的流处理函数，只使用非流式API
-        createChatCompletionStream: async function* (opts: any): AsyncGenerator<any, void, unknown> {
-          // 使用非流式API，仿流式效果
-          const response = await openai.chat.completions.create(opts);
-          // 模拟流响应
-          yield { choices: [{ delta: { content: response.choices[0].message.content } }] };
-        }
-      };
+      this.providers.register(options.modelProvider.id, options.modelProvider);
+      this.providers.defaultProvider = options.defaultProvider ?? options.modelProvider.id;
+    } else if (!options.providers || Object.keys(options.providers).length === 0) {
+      this.providers.register('openai', createOpenAIProvider({
+        apiKey: options.apiKey,
+        baseURL: options.baseURL,
+        timeout: options.timeout,
+        maxRetries: options.maxRetries,
+        configFile: options.configFile
+      }));
+    } else if (!this.providers.defaultProvider) {
+      this.providers.defaultProvider = Object.keys(options.providers)[0];
     }
     
     // 初始化追踪器
-    this.tracer = new Tracer(options.enableTracing ?? true);
+    this.tracingEnabled = options.enableTracing ?? true;
+    this.traceSinks = [...(options.traceSinks ?? [])];
+    
+    // 并行工具调用的最大并发数
+    this.toolConcurrency = options.toolConcurrency ?? Infinity;
+    
+    // 用量计费与默认预算
+    this.pricing = options.pricing;
+    this.budget = options.budget;
   }
   
   /**
-   * 运行Agent
+   * 运行Agent，返回最终响应
+   * 作为执行引擎事件流的消费者实现，与runStream行为一致；模型或工具出错时返回 stopReason 为 error 的响应
    */
-  async run(
+  async run<TContext extends ContextVariables = ContextVariables>(
     agent: Agent,
     messages: Message[],
-    context_variables: Record<string, any> = {},
-    stream: boolean = false,
-    max_turns: number = Infinity,
-    execute_tools: boolean = true,
-    model_override: string | null = null,
-    debug: boolean = false
-  ): Promise<Response | AsyncGenerator<any, void, unknown>> {
-    if (stream) {
-      return this.runWithStream(agent, messages, context_variables, max_turns, execute_tools, model_override, debug);
+    options: RunOptions<TContext> = {}
+  ): Promise<Response<TContext>> {
+    let response: Response<TContext> | null = null;
+    const { signal, dispose } = createRunSignal(options.signal, options.deadline);
+    
+    try {
+      for await (const event of this.execute(agent, messages, options, false, signal)) {
+        if (event.type === 'complete') {
+          const { type, ...rest } = event;
+          response = rest;
+        }
+      }
+    } finally {
+      dispose();
     }
     
-    // 重置追踪
-    this.tracer.clear();
+    return response!;
+  }
+  
+  /**
+   * 使用流式响应运行Agent，逐步产出内容、工具调用和生命周期事件
+   */
+  async *runStream<TContext extends ContextVariables = ContextVariables>(
+    agent: Agent,
+    messages: Message[],
+    options: RunOptions<TContext> = {}
+  ): AsyncGenerator<StreamEvent<TContext>, void, unknown> {
+    const { signal, dispose } = createRunSignal(options.signal, options.deadline);
+    
+    try {
+      yield* this.execute(agent, messages, options, true, signal);
+    } finally {
+      dispose();
+    }
+  }
+  
+  /**
+   * 按调用方的决定恢复因工具审批暂停的运行，未作决定且需要审批的调用会使运行再次暂停
+   * 沿用暂停运行的runId，追踪仍归属同一运行；工具调用次数和用量从暂停时继续累计，调用上限和预算对整个运行生效
+   */
+  resume<TContext extends ContextVariables = ContextVariables>(
+    state: Response<TContext>,
+    decisions: Record<string, ToolDecision>,
+    options: Omit<RunOptions<TContext>, 'context_variables' | 'toolDecisions' | 'usage' | 'toolInvocations' | 'runId'> = {}
+  ): Promise<Response<TContext>> {
+    return this.run(state.agent, state.messages, {
+      ...options,
+      context_variables: state.context_variables,
+      toolDecisions: decisions,
+      usage: state.usage,
+      toolInvocations: state.toolInvocations,
+      runId: state.runId
+    });
+  }
+  
+  /**
+   * 以流式方式恢复因工具审批暂停的运行
+   */
+  resumeStream<TContext extends ContextVariables = ContextVariables>(
+    state: Response<TContext>,
+    decisions: Record<string, ToolDecision>,
+    options: Omit<RunOptions<TContext>, 'context_variables' | 'toolDecisions' | 'usage' | 'toolInvocations' | 'runId'> = {}
+  ): AsyncGenerator<StreamEvent<TContext>, void, unknown> {
+    return this.runStream(state.agent, state.messages, {
+      ...options,
+      context_variables: state.context_variables,
+      toolDecisions: decisions,
+      usage: state.usage,
+      toolInvocations: state.toolInvocations,
+      runId: state.runId
+    });
+  }
+  
+  /**
+   * 为每次运行创建独立的追踪器，运行结束后（包括抛出异常或调用方提前停止消费）将追踪发送到追踪接收器
+   * 同一Swarm上的并发运行互不影响
+   */
+  private async *execute<TContext extends ContextVariables>(
+    agent: Agent,
+    messages: Message[],
+    options: RunOptions<TContext>,
+    stream: boolean,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent<TContext>, void, unknown> {
+    const parentSpan = options.parentSpan;
+    const tracer = new Tracer(this.tracingEnabled, options.runId, parentSpan?.traceId ?? parentSpan?.runId);
+    const runTracer = tracer.startSpan(
+      'run',
+      'run',
+      {
+        agent: agent.name,
+        stream,
+        parentRunId: parentSpan?.runId
+      },
+      parentSpan?.spanId ?? null
+    );
+    const startTime = Date.now();
+    let stopReason: StopReason | undefined;
+    let runError: unknown;
+    
+    try {
+      for await (const event of this.executeRun(runTracer, agent, messages, options, stream, signal)) {
+        if (event.type === 'complete') {
+          stopReason = event.stopReason;
+          runError = event.error;
+          // 运行跨度在产出complete之前结束，响应中的跨度是完整的
+          runTracer.endSpan(stopReason === 'error' ? 'error' : 'ok', { stopReason, agent: event.agent.name }, runError);
+          yield { ...event, spans: tracer.getSpans() };
+          continue;
+        }
+        yield event;
+      }
+    } catch (error) {
+      runError = error;
+      throw error;
+    } finally {
+      // 抛出异常或调用方提前停止消费时，结束仍未结束的跨度
+      tracer.endOpenSpans(runError !== undefined ? 'error' : 'unset', runError);
+      
+      this.exportTrace({
+        runId: tracer.runId,
+        traceId: tracer.traceId,
+        agent: agent.name,
+        startTime,
+        endTime: Date.now(),
+        stopReason,
+        error: runError === undefined ? undefined : runError instanceof Error ? runError.message : String(runError),
+        events: tracer.getEvents(),
+        spans: tracer.getSpans()
+      });
+    }
+  }
+  
+  /**
+   * 将完成的运行追踪发送到全部追踪接收器，接收器的错误只记录不影响运行
+   */
+  private exportTrace(trace: RunTrace): void {
+    if (!this.tracingEnabled) {
+      return;
+    }
+    
+    for (const sink of this.traceSinks) {
+      try {
+        Promise.resolve(sink.export(trace)).catch(error => {
+          console.error('追踪接收器导出失败:', error);
+        });
+      } catch (error) {
+        console.error('追踪接收器导出失败:', error);
+      }
+    }
+  }
+  
+  /**
+   * 执行引擎 - run与runStream共用的Agent循环，产出类型化的生命周期事件
+   * stream仅决定模型调用是否使用流式接口，轮数计数、守卫和工具循环在两种模式下完全相同
+   * signal触发后停止循环，返回已产生的部分结果
+   */
+  private async *executeRun<TContext extends ContextVariables>(
+    runTracer: Tracer,
+    agent: Agent,
+    messages: Message[],
+    options: RunOptions<TContext>,
+    stream: boolean,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent<TContext>, void, unknown> {
+    const {
+      context_variables = {} as TContext,
+      max_turns = Infinity,
+      execute_tools = true,
+      model_override = null,
+      debug = false,
+      budget = this.budget
+    } = options;
+    // 调用方的决定只作用于恢复的那一批工具调用，之后模型新发起的调用即使ID相同也需要重新审批
+    let toolDecisions = options.toolDecisions ?? {};
+    
+    if (budget?.maxCost !== undefined && !this.pricing) {
+      throw new Error('设置了费用预算 maxCost，但未配置模型价格表 pricing');
+    }
     
     let currentAgent = agent;
     let currentMessages = [...messages];
     let currentContextVars = { ...context_variables };
     let turns = 0;
+    let stopReason: StopReason = 'max_turns';
+    let runError: Error | undefined;
+    // 输出验证重试时附加在历史之后的失败回复和修正提示，不写入最终消息
+    let repairMessages: Message[] = [];
+    let validationRetries = 0;
+    // 输出验证重试和转交兜底Agent重新回答属于同一轮，不计入max_turns；每轮最多转交一次兜底Agent
+    let redoTurn = false;
+    let fallbackInTurn = false;
+    // 各工具的调用次数，用于工具守卫的调用上限；恢复暂停的运行时从之前的次数继续
+    const toolInvocations = new Map<string, number>(Object.entries(options.toolInvocations ?? {}));
+    // 全部模型调用的用量，恢复暂停的运行时包含之前的用量
+    const usageTracker = new UsageTracker(this.pricing, options.usage);
+    // 上一次模型调用的系统消息和其余请求消息，model_call事件只记录相对它们的变化
+    let recordedSystem: string | undefined;
+    let recordedMessages: Message[] = [];
+    // 每个Agent一个跨度，切换Agent时结束旧跨度并开始新跨度
+    let agentTracer = runTracer.startSpan('agent', currentAgent.name, { agent: currentAgent.name });
     
-    // 添加系统指令消息
     const systemInstructions = currentAgent.getInstructions(currentContextVars);
-    const systemMessage: Message = {
-      role: 'system',
-      content: systemInstructions
-    };
     
     // 记录agent启动事件
-    this.tracer.addEvent('agent_start', {
+    agentTracer.addEvent('agent_start', {
       agent: currentAgent.name,
       instructions: systemInstructions.substring(0, 200) + (systemInstructions.length > 200 ? '...' : '')
     });
@@ -91,93 +309,367 @@ export class Swarm {
       console.log(`[DEBUG] 指令: ${systemInstructions.substring(0, 100)}...`);
     }
     
-    // 循环处理对话，直到达到最大轮数或不需要继续
-    while (turns < max_turns) {
-      // 验证用户输入
-      for (const message of currentMessages) {
-        if (message.role === 'user' && message.content) {
-          const validationResult = await currentAgent.validateInput(message.content);
-          if (!validationResult.valid) {
-            this.tracer.addEvent('guardrail_check', {
-              type: 'input_validation',
-              success: false,
-              errors: validationResult.errors
-            });
-            
-            // 抛出错误或处理验证失败
-            throw new Error(`输入验证失败: ${validationResult.errors.join(', ')}`);
-          }
-          
-          this.tracer.addEvent('guardrail_check', {
-            type: 'input_validation',
-            success: true
-          });
+    // 只检查最后一条助手或工具消息之后的新用户消息，历史消息已在之前的运行中检查过
+    const newMessageStart = currentMessages.reduce(
+      (start, message, index) => (message.role === 'assistant' || message.role === 'tool' ? index + 1 : start),
+      0
+    );
+    
+    // 对新的用户输入执行安全检查，modify规则改写的内容替换原消息
+    for (let index = newMessageStart; index < currentMessages.length; index++) {
+      const message = currentMessages[index];
+      if (message.role === 'user' && message.content) {
+        const content = await this.enforceSafety(agentTracer, currentAgent, message.content, 'input', [index]);
+        if (content !== message.content) {
+          currentMessages[index] = { ...message, content };
         }
       }
+    }
+    
+    // 验证新的用户输入
+    const inputViolation = await this.validateNewInput(agentTracer, currentAgent, currentMessages, newMessageStart);
+    const refused = inputViolation !== null && currentAgent.guardrails.inputRefusal !== undefined;
+    
+    if (inputViolation && !refused) {
+      throw inputViolation;
+    }
+    
+    if (refused) {
+      // 以配置的拒绝回复结束运行
+      const refusal: Message = { role: 'assistant', content: currentAgent.guardrails.inputRefusal! };
+      currentMessages.push(refusal);
+      stopReason = 'guardrail_refusal';
       
-      // 记录模型调用事件
-      this.tracer.addEvent('model_call', {
-        model: model_override || currentAgent.model,
-        messages: currentMessages.map(m => ({
-          role: m.role,
-          content: m.content ? (m.content.substring(0, 100) + (m.content.length > 100 ? '...' : '')) : null
-        }))
-      });
-      
-      // 发送请求到模型提供商
-      const response = await this.getChatCompletion(
-        currentAgent,
-        currentMessages,
-        currentContextVars,
-        model_override,
-        false, // 非流式
-        debug
-      );
+      yield {
+        type: 'stream_start',
+        agent: currentAgent.name
+      };
+      yield {
+        type: 'content',
+        content: refusal.content!
+      };
+      yield {
+        type: 'stream_end',
+        messages: currentMessages,
+        usage: null
+      };
+    }
+    
+    // 恢复暂停的运行：历史末尾尚未得到结果的工具调用在第一轮按调用方的决定处理，不调用模型
+    let resumeToolCalls = refused ? null : this.getUnansweredToolCalls(currentMessages);
+    let pendingToolCalls: PendingToolCall[] | undefined;
+    
+    // 循环处理对话，直到模型给出最终回复或达到最大轮数
+    while (!refused && (turns < max_turns || redoTurn)) {
+      if (signal?.aborted) {
+        stopReason = 'aborted';
+        break;
+      }
       
-      // 处理响应
-      const responseMessage = response.choices[0].message;
+      // 用量达到预算时不再调用模型，未执行的工具调用保留在历史中，可提高预算后恢复
+      const exceeded = resumeToolCalls === null && budget ? usageTracker.checkBudget(budget) : null;
+      if (exceeded) {
+        stopReason = 'budget_exceeded';
+        
+        agentTracer.addEvent('budget_exceeded', {
+          agent: currentAgent.name,
+          turns,
+          ...exceeded
+        });
+        
+        yield {
+          type: 'budget_exceeded',
+          ...exceeded
+        };
+        break;
+      }
       
-      // 验证模型输出
-      if (responseMessage.content) {
-        const validationResult = await currentAgent.validateOutput(responseMessage.content);
-        if (!validationResult.valid) {
-          this.tracer.addEvent('guardrail_check', {
-            type: 'output_validation',
-            success: false,
-            errors: validationResult.errors
-          });
-          
-          // 这里可以选择如何处理验证失败：抛出错误、修改输出、只记录等
-          console.warn(`输出验证失败: ${validationResult.errors.join(', ')}`);
-        } else {
-          this.tracer.addEvent('guardrail_check', {
-            type: 'output_validation',
-            success: true
-          });
+      if (resumeToolCalls === null) {
+        // 每次模型调用计为一轮，输出验证的重新回答除外
+        if (!redoTurn) {
+          turns++;
+          fallbackInTurn = false;
         }
+        redoTurn = false;
+        toolDecisions = {};
+        
+        yield {
+          type: 'stream_start',
+          agent: currentAgent.name
+        };
       }
       
-      // 添加模型响应到消息历史
-      currentMessages.push({
-        role: 'assistant',
-        content: responseMessage.content,
-        tool_calls: responseMessage.tool_calls
+      // 每轮一个跨度，包含本轮的模型调用和工具调用
+      const tracer = agentTracer.startSpan('turn', `turn ${turns}`, {
+        turn: turns,
+        agent: currentAgent.name,
+        resumed: resumeToolCalls !== null
       });
+      let turnError: unknown;
       
-      // 处理工具调用
-      if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0 && execute_tools) {
-        turns++;
+      try {
+        let toolCalls: ToolCall[];
         
-        // 使用新的handleToolCalls方法处理工具调用
+        if (resumeToolCalls) {
+          toolCalls = resumeToolCalls;
+          resumeToolCalls = null;
+        } else {
+          const model = model_override || currentAgent.model;
+          const resolved = this.providers.resolve(model);
+          const provider = resolved.providerId;
+          const modelTracer = tracer.startSpan('model_call', model, { model, provider, stream });
+          
+          const system = currentAgent.getInstructions(currentContextVars);
+          const historyMessages = [...currentMessages, ...repairMessages];
+          const requestMessages: Message[] = [{ role: 'system', content: system }, ...historyMessages];
+          
+          // 与上一次模型调用相同的消息前缀只记录长度，避免每个事件都复制完整历史
+          let messageOffset = 0;
+          while (
+            messageOffset < recordedMessages.length &&
+            recordedMessages[messageOffset] === historyMessages[messageOffset]
+          ) {
+            messageOffset++;
+          }
+          
+          // 记录模型调用事件：系统消息只在变化时记录，messages为messageOffset之后新增的消息，调用结束后补充模型回复、用量和费用
+          const modelCallData: Record<string, any> = {
+            model,
+            provider,
+            ...(system !== recordedSystem ? { system } : {}),
+            messageOffset,
+            messages: historyMessages.slice(messageOffset).map(m => ({ ...m }))
+          };
+          recordedMessages = historyMessages;
+          recordedSystem = system;
+          modelTracer.addEvent('model_call', modelCallData);
+          
+          const policy: OutputValidationPolicy = currentAgent.guardrails.outputValidationPolicy ?? { action: 'warn' };
+          // 非warn策略或有会改写、阻止输出的安全检查时缓冲流式内容，检查和验证通过后再产出
+          const bufferContent = stream && (policy.action !== 'warn' || currentAgent.hasEnforcingSafetyChecks('output'));
+          
+          const modelCall = this.callModel<TContext>(
+            modelTracer,
+            currentAgent,
+            requestMessages,
+            model_override,
+            stream,
+            debug,
+            signal
+          );
+          let step: IteratorResult<StreamEvent<TContext>, { message: Message; usage: Usage | null }>;
+          try {
+            step = await modelCall.next();
+            while (!step.done) {
+              if (!(bufferContent && step.value.type === 'content')) {
+                yield step.value;
+              }
+              step = await modelCall.next();
+            }
+          } catch (error) {
+            modelTracer.endSpan('error', {}, error);
+            throw error;
+          }
+          const { usage } = step.value;
+          const cost = usageTracker.record(
+            currentAgent.name,
+            turns,
+            model,
+            usage ?? { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+            resolved.model
+          );
+          Object.assign(modelCallData, { usage, cost });
+          modelTracer.endSpan(signal?.aborted ? 'error' : 'ok', {
+            promptTokens: usage?.prompt_tokens,
+            completionTokens: usage?.completion_tokens,
+            cost,
+            toolCalls: step.value.message.tool_calls?.length ?? 0
+          }, signal?.aborted ? getAbortReason(signal) : undefined);
+          let assistantMessage = step.value.message;
+          
+          // 取消时保留已收到的部分回复
+          if (signal?.aborted) {
+            currentMessages.push(assistantMessage);
+            throwIfAborted(signal);
+          }
+          
+          // 对模型输出执行安全检查
+          if (assistantMessage.content) {
+            assistantMessage.content = await this.enforceSafety(tracer, currentAgent, assistantMessage.content, 'output');
+          }
+          // 记录经过安全检查的模型回复
+          modelCallData.response = {
+            role: 'assistant',
+            content: assistantMessage.content,
+            tool_calls: assistantMessage.tool_calls
+          };
+          
+          if (usage) {
+            yield {
+              type: 'usage',
+              usage
+            };
+          }
+          
+          // 验证模型输出，失败时按Agent的策略处理
+          if (assistantMessage.content) {
+            const attempt = validationRetries + 1;
+            const validationResult = await currentAgent.validateOutput(assistantMessage.content);
+            
+            tracer.addEvent('guardrail_check', {
+              type: 'output_validation',
+              success: validationResult.valid,
+              errors: validationResult.errors,
+              attempt,
+              action: policy.action
+            });
+            
+            if (!validationResult.valid) {
+              if (debug) {
+                console.warn(`输出验证失败: ${validationResult.errors.join(', ')}`);
+              }
+              
+              yield {
+                type: 'validation_failed',
+                errors: validationResult.errors,
+                attempt,
+                action: policy.action
+              };
+              
+              if (policy.action === 'retry' && validationRetries < (policy.maxRetries ?? 2)) {
+                // 重新生成：附上失败的回复和验证错误，不保留其中的工具调用
+                validationRetries++;
+                repairMessages = [
+                  { role: 'assistant', content: assistantMessage.content },
+                  {
+                    role: 'user',
+                    content: `你的上一条回复未通过验证: ${validationResult.errors.join('; ')}。请修正后重新回答。`
+                  }
+                ];
+                
+                yield {
+                  type: 'stream_end',
+                  messages: currentMessages,
+                  usage
+                };
+                redoTurn = true;
+                continue;
+              }
+              
+              if (policy.action !== 'warn') {
+                if (policy.fallbackAgent && !fallbackInTurn) {
+                  // 转交给兜底Agent重新回答
+                  const previousAgent = currentAgent;
+                  currentAgent = policy.fallbackAgent;
+                  repairMessages = [];
+                  validationRetries = 0;
+                  redoTurn = true;
+                  fallbackInTurn = true;
+                  agentTracer.endSpan('ok', { handoffTo: currentAgent.name });
+                  agentTracer = runTracer.startSpan('agent', currentAgent.name, { agent: currentAgent.name });
+                  
+                  tracer.addEvent('handoff', {
+                    from: previousAgent.name,
+                    to: currentAgent.name,
+                    reason: 'output_validation'
+                  });
+                  
+                  yield {
+                    type: 'stream_end',
+                    messages: currentMessages,
+                    usage
+                  };
+                  yield {
+                    type: 'handoff',
+                    from: previousAgent.name,
+                    to: currentAgent.name
+                  };
+                  continue;
+                }
+                
+                if (policy.action === 'block' || policy.fallbackResponse === undefined) {
+                  throw new OutputValidationError(currentAgent.name, validationResult.errors, attempt, validationResult.rules);
+                }
+                
+                // 使用固定回复替换未通过验证的输出
+                assistantMessage = { role: 'assistant', content: policy.fallbackResponse };
+              }
+            }
+          }
+          
+          repairMessages = [];
+          validationRetries = 0;
+          
+          if (bufferContent && assistantMessage.content) {
+            yield {
+              type: 'content',
+              content: assistantMessage.content
+            };
+          }
+          
+          // 添加模型响应到消息历史
+          currentMessages.push(assistantMessage);
+          
+          yield {
+            type: 'stream_end',
+            messages: currentMessages,
+            usage
+          };
+          
+          // 没有工具调用时即为最终回复
+          if (!assistantMessage.tool_calls || assistantMessage.tool_calls.length === 0) {
+            stopReason = 'final_answer';
+            break;
+          }
+          
+          toolCalls = assistantMessage.tool_calls;
+        }
+        
+        // 需要审批且尚无决定的工具调用暂停运行，交由调用方决定
+        const pending = await this.collectPendingApprovals(currentAgent, toolCalls, currentContextVars, execute_tools, toolDecisions);
+        if (pending) {
+          stopReason = 'tool_requires_approval';
+          pendingToolCalls = pending;
+          
+          yield {
+            type: 'approval_required',
+            pendingToolCalls: pending
+          };
+          break;
+        }
+        
+        // 应用调用方的决定，修改的参数同步到消息历史
+        toolCalls = this.applyToolDecisions(tracer, currentMessages, toolCalls, toolDecisions);
+        
+        // 执行工具调用，结果在下一轮交给模型继续处理
         const toolCallResult = await this.handleToolCalls(
-          responseMessage.tool_calls,
-          currentAgent.functions,
+          tracer,
+          toolCalls,
+          currentAgent,
           currentContextVars,
-          debug
+          toolInvocations,
+          toolDecisions,
+          debug,
+          signal
         );
         
-        // 添加工具响应消息到历史
-        currentMessages = [...currentMessages, ...toolCallResult.messages];
+        // 对工具结果执行安全检查
+        const toolMessages: Message[] = [];
+        for (const message of toolCallResult.messages) {
+          toolMessages.push(message.content
+            ? { ...message, content: await this.enforceSafety(tracer, currentAgent, message.content, 'tool_result') }
+            : message);
+        }
+        
+        // 添加工具响应消息到历史，取消时也保留已完成调用的结果，避免恢复或重试时重复执行
+        currentMessages = [...currentMessages, ...toolMessages];
+        
+        for (const message of toolMessages) {
+          yield {
+            type: 'tool_response',
+            message
+          };
+        }
         
         // 更新上下文变量
         currentContextVars = {
@@ -185,447 +677,806 @@ export class Swarm {
           ...toolCallResult.context_variables
         };
         
+        if (toolCallResult.error !== undefined) {
+          throw toolCallResult.error;
+        }
+        
         // 处理可能的Agent切换
         if (toolCallResult.agent) {
-          this.tracer.addEvent('handoff', {
+          tracer.addEvent('handoff', {
             from: currentAgent.name,
             to: toolCallResult.agent.name,
             context_update: toolCallResult.context_variables
           });
           
+          const previousAgent = currentAgent;
           currentAgent = toolCallResult.agent;
+          agentTracer.endSpan('ok', { handoffTo: currentAgent.name });
+          agentTracer = runTracer.startSpan('agent', currentAgent.name, { agent: currentAgent.name });
+          
+          yield {
+            type: 'handoff',
+            from: previousAgent.name,
+            to: currentAgent.name
+          };
           
           if (debug) {
             this.debugPrint(debug, `Agent切换到: ${currentAgent.name}`);
           }
-        } else {
-          // 如果没有工具调用或不需要执行，跳出循环
+        }
+      } catch (error) {
+        turnError = error;
+        
+        if (signal?.aborted) {
+          stopReason = 'aborted';
+          currentMessages = this.cancelPendingToolCalls(currentMessages);
           break;
         }
-      } else {
-        // 如果没有工具调用或不需要执行，跳出循环
+        
+        // 守卫阻止时终止运行
+        if (error instanceof GuardrailViolationError) {
+          throw error;
+        }
+        
+        if (debug) {
+          console.error('[DEBUG] 运行错误:', error);
+        }
+        stopReason = 'error';
+        runError = error instanceof Error ? error : new Error(String(error));
+        
+        yield {
+          type: 'error',
+          error: runError.message,
+          cause: error
+        };
         break;
+      } finally {
+        tracer.endSpan(turnError === undefined ? 'ok' : 'error', {}, turnError);
       }
     }
     
+    if (stopReason === 'aborted') {
+      const reason = getAbortReason(signal!);
+      
+      agentTracer.addEvent('aborted', {
+        agent: currentAgent.name,
+        turns,
+        reason
+      });
+      
+      yield {
+        type: 'aborted',
+        reason
+      };
+    }
+    
     // 记录agent结束事件
-    this.tracer.addEvent('agent_end', {
-      agent: currentAgent.name
+    agentTracer.addEvent('agent_end', {
+      agent: currentAgent.name,
+      stopReason
     });
+    agentTracer.endSpan(stopReason === 'error' ? 'error' : 'ok', { stopReason }, runError);
     
-    // 返回最终结果
-    return {
+    yield {
+      type: 'complete',
       messages: currentMessages,
       agent: currentAgent,
       context_variables: currentContextVars,
-      trace: this.tracer.getEvents()
+      stopReason,
+      error: runError,
+      pendingToolCalls,
+      runId: runTracer.runId,
+      trace: runTracer.getEvents(),
+      usage: usageTracker.getUsage(),
+      toolInvocations: Object.fromEntries(toolInvocations)
     };
   }
   
   /**
-   * 使用流式响应运行Agent
+   * 调用模型并组装助手消息
+   * 流式模式下逐块产出内容和工具调用增量，非流式模式下一次性产出
+   * 流式调用被取消时，已收到的内容作为部分回复返回
    */
-  private async *runWithStream(
+  private async *callModel<TContext extends ContextVariables>(
+    tracer: Tracer,
     agent: Agent,
     messages: Message[],
-    context_variables: Record<string, any> = {},
-    max_turns: number = Infinity,
-    execute_tools: boolean = true,
-    model_override: string | null = null,
-    debug: boolean = false
-  ): AsyncGenerator<any, void, unknown> {
-    // 重置追踪
-    this.tracer.clear();
-    
-    let currentAgent = agent;
-    let currentMessages = [...messages];
-    let currentContextVars = { ...context_variables };
-    let turns = 0;
-    
-    // 添加系统指令消息
-    const systemInstructions = currentAgent.getInstructions(currentContextVars);
-    const systemMessage: Message = {
-      role: 'system',
-      content: systemInstructions
-    };
-    
-    // 记录agent启动事件
-    this.tracer.addEvent('agent_start', {
-      agent: currentAgent.name,
-      instructions: systemInstructions.substring(0, 200) + (systemInstructions.length > 200 ? '...' : '')
-    });
-    
-    if (debug) {
-      console.log(`[DEBUG] 启动Agent: ${currentAgent.name}`);
-      console.log(`[DEBUG] 指令: ${systemInstructions.substring(0, 100)}...`);
-    }
-    
-    // 循环处理对话，直到达到最大轮数或不需要继续
-    while (turns < max_turns) {
-      // 验证用户输入
-      for (const message of currentMessages) {
-        if (message.role === 'user' && message.content) {
-          const validationResult = await currentAgent.validateInput(message.content);
-          if (!validationResult.valid) {
-            this.tracer.addEvent('guardrail_check', {
-              type: 'input_validation',
-              success: false,
-              errors: validationResult.errors
-            });
-            
-            // 抛出错误或处理验证失败
-            throw new Error(`输入验证失败: ${validationResult.errors.join(', ')}`);
-          }
-          
-          this.tracer.addEvent('guardrail_check', {
-            type: 'input_validation',
-            success: true
-          });
-        }
+    model_override: string | null,
+    stream: boolean,
+    debug: boolean,
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent<TContext>, { message: Message; usage: Usage | null }, unknown> {
+    if (!stream) {
+      const response = await abortable(
+        this.getChatCompletion(tracer, agent, messages, model_override, false, debug, signal),
+        signal
+      );
+      const responseMessage = response.choices[0].message;
+      
+      if (responseMessage.content) {
+        yield {
+          type: 'content',
+          content: responseMessage.content
+        };
       }
       
-      turns++;
+      for (const toolCall of responseMessage.tool_calls ?? []) {
+        yield {
+          type: 'tool_call',
+          tool_call: toolCall
+        };
+      }
       
-      // 记录流式开始
-      yield {
-        type: 'stream_start',
-        agent: currentAgent.name
+      return {
+        message: {
+          role: 'assistant',
+          content: responseMessage.content,
+          tool_calls: responseMessage.tool_calls
+        },
+        usage: response.usage ?? null
       };
+    }
+    
+    // 收集完整的流式响应
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    let usage: Usage | null = null;
+    
+    try {
+      const chunks = this.getChatCompletion(tracer, agent, messages, model_override, true, debug, signal);
       
-      try {
-        // 记录模型调用事件
-        this.tracer.addEvent('model_call', {
-          model: model_override || currentAgent.model,
-          messages: currentMessages.map(m => ({
-            role: m.role,
-            content: m.content ? (m.content.substring(0, 100) + (m.content.length > 100 ? '...' : '')) : null
-          }))
-        });
-        
-        // 发送流式请求到模型提供商
-        const stream = await this.getChatCompletion(
-          currentAgent,
-          currentMessages,
-          currentContextVars,
-          model_override,
-          true, // 流式请求
-          debug
-        );
+      for await (const chunk of abortableIterable(chunks, signal)) {
+        // 最后一个块可能只携带用量统计，没有choices
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
         
-        // 收集完整的流式响应
-        let collectedResponseMessage: Record<string, any> = {
-          content: '',
-          tool_calls: []
-        };
-        let lastChunkHadToolCalls = false;
+        const delta = chunk.choices?.[0]?.delta;
+        if (!delta) {
+          continue;
+        }
         
-        // 处理流式响应
-        for await (const chunk of stream) {
-          const delta = chunk.choices[0].delta;
+        if (delta.content) {
+          content += delta.content;
           
-          // 收集完整的内容
-          if (delta.content) {
-            collectedResponseMessage.content += delta.content;
-            
-            yield {
-              type: 'content',
-              content: delta.content
-            };
-          }
-          
-          // 收集工具调用
-          if (delta.tool_calls && delta.tool_calls.length > 0) {
-            lastChunkHadToolCalls = true;
-            
-            // 处理不同的工具调用增量
-            for (const toolCallDelta of delta.tool_calls) {
-              const toolCallIndex = toolCallDelta.index;
-              
-              // 确保数组有足够空间
-              while (collectedResponseMessage.tool_calls.length <= toolCallIndex) {
-                collectedResponseMessage.tool_calls.push({
-                  id: '',
-                  type: '',
-                  function: { name: '', arguments: '' }
-                });
-              }
-              
-              // 更新工具调用数据
-              const currentToolCall = collectedResponseMessage.tool_calls[toolCallIndex];
-              
-              if (toolCallDelta.id) {
-                currentToolCall.id = toolCallDelta.id;
-              }
-              
-              if (toolCallDelta.type) {
-                currentToolCall.type = toolCallDelta.type;
-              }
-              
-              if (toolCallDelta.function) {
-                if (toolCallDelta.function.name) {
-                  currentToolCall.function.name = toolCallDelta.function.name;
-                }
-                
-                if (toolCallDelta.function.arguments) {
-                  currentToolCall.function.arguments += toolCallDelta.function.arguments;
-                }
-              }
-              
-              // 仅当有函数名时才发送工具调用增量
-              if (currentToolCall.function.name) {
-                yield {
-                  type: 'tool_call',
-                  tool_call: { ...currentToolCall }
-                };
-              }
-            }
-          }
+          yield {
+            type: 'content',
+            content: delta.content
+          };
         }
         
-        // 添加模型响应到消息历史
-        currentMessages.push({
-          role: 'assistant',
-          content: collectedResponseMessage.content,
-          tool_calls: collectedResponseMessage.tool_calls
-        });
-        
-        yield {
-          type: 'stream_end',
-          messages: currentMessages
-        };
-        
-        // 验证模型输出
-        if (collectedResponseMessage.content) {
-          const validationResult = await currentAgent.validateOutput(collectedResponseMessage.content);
-          if (!validationResult.valid) {
-            this.tracer.addEvent('guardrail_check', {
-              type: 'output_validation',
-              success: false,
-              errors: validationResult.errors
-            });
-            
-            // 这里可以选择如何处理验证失败：抛出错误、修改输出、只记录等
-            if (debug) {
-              console.warn(`输出验证失败: ${validationResult.errors.join(', ')}`);
-            }
-            
-            yield {
-              type: 'validation_failed',
-              errors: validationResult.errors
-            };
-          } else {
-            this.tracer.addEvent('guardrail_check', {
-              type: 'output_validation',
-              success: true
+        // 按索引合并工具调用增量
+        for (const toolCallDelta of delta.tool_calls ?? []) {
+          const toolCallIndex = toolCallDelta.index;
+          
+          while (toolCalls.length <= toolCallIndex) {
+            toolCalls.push({
+              id: '',
+              type: 'function',
+              function: { name: '', arguments: '' }
             });
           }
-        }
-        
-        // 处理工具调用
-        if (collectedResponseMessage.tool_calls && 
-            collectedResponseMessage.tool_calls.length > 0 && 
-            execute_tools) {
-          
-          // 使用新的handleToolCalls方法处理工具调用
-          const toolCallResult = await this.handleToolCalls(
-            collectedResponseMessage.tool_calls,
-            currentAgent.functions,
-            currentContextVars,
-            debug
-          );
           
-          // 添加工具响应消息到历史
-          currentMessages = [...currentMessages, ...toolCallResult.messages];
+          const currentToolCall = toolCalls[toolCallIndex];
           
-          for (const message of toolCallResult.messages) {
-            yield {
-              type: 'tool_response',
-              message
-            };
+          if (toolCallDelta.id) {
+            currentToolCall.id = toolCallDelta.id;
           }
           
-          // 更新上下文变量
-          currentContextVars = {
-            ...currentContextVars,
-            ...toolCallResult.context_variables
-          };
+          if (toolCallDelta.type) {
+            currentToolCall.type = toolCallDelta.type;
+          }
           
-          // 处理可能的Agent切换
-          if (toolCallResult.agent) {
-            this.tracer.addEvent('handoff', {
-              from: currentAgent.name,
-              to: toolCallResult.agent.name,
-              context_update: toolCallResult.context_variables
-            });
-            
-            currentAgent = toolCallResult.agent;
+          if (toolCallDelta.function) {
+            if (toolCallDelta.function.name) {
+              currentToolCall.function.name = toolCallDelta.function.name;
+            }
             
+            if (toolCallDelta.function.arguments) {
+              currentToolCall.function.arguments += toolCallDelta.function.arguments;
+            }
+          }
+          
+          // 仅当有函数名时才发送工具调用增量
+          if (currentToolCall.function.name) {
             yield {
-              type: 'handoff',
-              from: agent.name,
-              to: currentAgent.name
+              type: 'tool_call',
+              tool_call: { ...currentToolCall, function: { ...currentToolCall.function } }
             };
-            
-            if (debug) {
-              this.debugPrint(debug, `Agent切换到: ${currentAgent.name}`);
-            }
-            
-            // 继续下一个循环
-            continue;
           }
         }
-        
-        // 如果没有工具调用或不需要执行，结束循环
-        break;
-      } catch (error) {
-        if (debug) {
-          console.error('[DEBUG] 流式运行错误:', error);
-        }
-        yield {
-          type: 'error',
-          error: String(error)
+      }
+    } catch (error) {
+      // 取消时保留已收到的内容
+      if (signal?.aborted && content) {
+        return {
+          message: { role: 'assistant', content },
+          usage
         };
-        break;
       }
+      throw error;
+    }
+    
+    const hasToolCalls = toolCalls.length > 0;
+    return {
+      message: {
+        role: 'assistant',
+        content: content || (hasToolCalls ? null : ''),
+        tool_calls: hasToolCalls ? toolCalls : undefined
+      },
+      usage
+    };
+  }
+  
+  /**
+   * 验证从start开始的新用户消息，返回包含全部未通过规则和消息索引的错误，全部通过时返回null
+   */
+  private async validateNewInput(
+    tracer: Tracer,
+    agent: Agent,
+    messages: Message[],
+    start: number
+  ): Promise<GuardrailViolationError | null> {
+    const rules = new Set<string>();
+    const errors: string[] = [];
+    const messageIndices: number[] = [];
+    
+    for (let index = start; index < messages.length; index++) {
+      const message = messages[index];
+      if (message.role !== 'user' || !message.content) {
+        continue;
+      }
+      
+      const validationResult = await agent.validateInput(message.content);
+      
+      tracer.addEvent('guardrail_check', {
+        type: 'input_validation',
+        success: validationResult.valid,
+        errors: validationResult.errors,
+        rules: validationResult.rules,
+        messageIndex: index
+      });
+      
+      if (!validationResult.valid) {
+        validationResult.rules.forEach(rule => rules.add(rule));
+        errors.push(...validationResult.errors);
+        messageIndices.push(index);
+      }
+    }
+    
+    if (messageIndices.length === 0) {
+      return null;
+    }
+    
+    return new GuardrailViolationError(`输入验证失败: ${errors.join(', ')}`, {
+      guardrail: 'input_validation',
+      rules: [...rules],
+      errors,
+      messageIndices
+    });
+  }
+  
+  /**
+   * 执行Agent的安全检查并记录追踪，返回可能被改写的内容，block时抛出SafetyViolationError
+   */
+  private async enforceSafety(
+    tracer: Tracer,
+    agent: Agent,
+    content: string,
+    target: SafetyCheckTarget,
+    messageIndices?: number[]
+  ): Promise<string> {
+    if (!agent.guardrails.safetyChecks || agent.guardrails.safetyChecks.length === 0) {
+      return content;
+    }
+    
+    const result = await agent.checkSafety(content, target);
+    
+    if (result.violations.length === 0) {
+      tracer.addEvent('guardrail_check', {
+        type: 'safety_check',
+        target,
+        success: true
+      });
+    }
+    
+    for (const violation of result.violations) {
+      tracer.addEvent('guardrail_check', {
+        type: 'safety_check',
+        target,
+        success: false,
+        rule: violation.rule,
+        severity: violation.severity,
+        action: violation.action,
+        errors: [violation.message]
+      });
     }
     
-    // 记录agent结束事件
-    this.tracer.addEvent('agent_end', {
-      agent: currentAgent.name
-    });
+    if (result.blocked) {
+      throw new SafetyViolationError(target, result.violations, messageIndices);
+    }
     
-    yield {
-      type: 'complete',
-      messages: currentMessages,
-      agent: currentAgent,
-      context_variables: currentContextVars,
-      trace: this.tracer.getEvents()
-    };
+    return result.content;
   }
   
   /**
    * 处理LLM返回的工具调用
+   * 启用并行工具调用时并发执行，工具消息仍按调用顺序返回
+   * 运行被取消时仍返回已完成调用的结果，并在error中带上取消原因，未完成的调用由调用方补充取消消息
    */
   private async handleToolCalls(
+    tracer: Tracer,
     toolCalls: ToolCall[],
-    functions: FunctionType[],
+    agent: Agent,
     contextVariables: Record<string, any>,
-    debug: boolean = false
+    invocations: Map<string, number>,
+    decisions: Record<string, ToolDecision>,
+    debug: boolean = false,
+    signal?: AbortSignal
   ): Promise<{
     messages: Message[];
     agent: Agent | null;
     context_variables: Record<string, any>;
+    error?: unknown;
   }> {
-    // 创建函数映射
-    const functionMap: Record<string, Function> = {};
+    // 创建工具调用器映射
+    const invokerMap: Record<string, ToolInvoker> = {};
     
-    // 过滤出实际函数并创建映射
-    for (const func of functions) {
-      if (typeof func === 'function') {
-        functionMap[func.name] = func;
+    for (const func of agent.functions) {
+      const invoker = createToolInvoker(func);
+      if (invoker) {
+        invokerMap[invoker.name] = invoker;
       }
     }
     
+    const functionCalls = toolCalls.filter(toolCall => toolCall.type === 'function');
+    const concurrent = agent.parallel_tool_calls && functionCalls.length > 1;
+    
+    const settled = await settleWithConcurrency(
+      functionCalls,
+      concurrent ? this.toolConcurrency : 1,
+      toolCall => this.executeToolCall(tracer, toolCall, agent, invokerMap, contextVariables, invocations, decisions[toolCall.id], concurrent, debug, signal)
+    );
+    
     const response = {
       messages: [] as Message[],
       agent: null as Agent | null,
-      context_variables: {} as Record<string, any>
+      context_variables: {} as Record<string, any>,
+      error: undefined as unknown
     };
     
-    for (const toolCall of toolCalls) {
-      if (toolCall.type === 'function') {
-        const { name, arguments: args } = toolCall.function;
-        const toolCallId = toolCall.id; // 保存工具调用ID
-        
-        this.tracer.addEvent('function_call', {
-          name,
-          arguments: args
-        });
-        
-        if (debug) {
-          this.debugPrint(debug, `调用函数: ${name} 参数: ${args}`);
-        }
-        
-        // 查找函数
-        const func = functionMap[name];
-        
-        if (func) {
-          try {
-            // 解析参数
-            const parsedArgs = JSON.parse(args);
-            
-            // 执行函数，传入上下文变量和参数
-            const funcResult = func(contextVariables, ...Object.values(parsedArgs));
-            
-            this.tracer.addEvent('function_return', {
-              name,
-              result: this.serializeResult(funcResult)
-            });
-            
-            // 处理函数返回结果
-            const result = this.handleFunctionResult(funcResult, name, toolCallId, debug);
-            
-            // 添加消息
-            if (result.message) {
-              response.messages.push(result.message);
-            }
-            
-            // 更新上下文变量
-            response.context_variables = {
-              ...response.context_variables,
-              ...result.context_variables
-            };
-            
-            // 设置Agent（如果有）
-            if (result.agent) {
-              response.agent = result.agent;
-            }
-          } catch (error) {
-            // Safely convert error to string
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            
-            this.tracer.addEvent('function_return', {
-              name,
-              error: errorMessage
-            });
-            
-            if (debug) {
-              this.debugPrint(debug, `函数 ${name} 执行错误: ${errorMessage}`);
-            }
-            
-            response.messages.push({
-              role: 'tool',
-              content: `函数 ${name} 执行错误: ${errorMessage}`,
-              name: name,
-              tool_call_id: toolCallId // 添加工具调用ID
-            });
-          }
-        } else {
-          // 未找到函数
-          const errorMessage = `函数 ${name} 未找到`;
-          
-          this.tracer.addEvent('function_return', {
-            name,
-            error: errorMessage
-          });
-          
-          if (debug) {
-            this.debugPrint(debug, errorMessage);
-          }
-          
-          response.messages.push({
-            role: 'tool',
-            content: errorMessage,
-            name: name,
-            tool_call_id: toolCallId // 添加工具调用ID
-          });
-        }
+    // 按调用顺序合并结果，保证确定性
+    for (const outcome of settled) {
+      if (outcome.status === 'rejected') {
+        response.error ??= outcome.reason;
+        continue;
+      }
+      
+      const result = outcome.value;
+      if (result.message) {
+        response.messages.push(result.message);
+      }
+      
+      response.context_variables = {
+        ...response.context_variables,
+        ...result.context_variables
+      };
+      
+      if (result.agent) {
+        response.agent = result.agent;
       }
     }
     
     return response;
   }
   
+  /**
+   * 在独立的tool_call跨度中执行单个工具调用，并行调用的跨度互为兄弟
+   */
+  private async executeToolCall(
+    turnTracer: Tracer,
+    toolCall: ToolCall,
+    agent: Agent,
+    invokerMap: Record<string, ToolInvoker>,
+    contextVariables: Record<string, any>,
+    invocations: Map<string, number>,
+    decision: ToolDecision | undefined,
+    parallel: boolean,
+    debug: boolean,
+    signal?: AbortSignal
+  ): Promise<{
+    message: Message | null;
+    agent: Agent | null;
+    context_variables: Record<string, any>;
+  }> {
+    const tracer = turnTracer.startSpan('tool_call', toolCall.function.name, {
+      tool: toolCall.function.name,
+      tool_call_id: toolCall.id,
+      parallel,
+      decision: decision?.action
+    });
+    
+    try {
+      const result = await this.runToolCall(
+        tracer, toolCall, agent, invokerMap, contextVariables, invocations, decision, parallel, debug, signal
+      );
+      tracer.endSpan(result.error === undefined ? 'ok' : 'error', {
+        handoffTo: result.agent?.name
+      }, result.error);
+      return result;
+    } catch (error) {
+      tracer.endSpan('error', {}, error);
+      throw error;
+    }
+  }
+  
+  /**
+   * 执行单个工具调用并记录耗时
+   * 依次检查工具守卫的允许列表、参数和调用上限，执行后验证并改写结果
+   */
+  private async runToolCall(
+    tracer: Tracer,
+    toolCall: ToolCall,
+    agent: Agent,
+    invokerMap: Record<string, ToolInvoker>,
+    contextVariables: Record<string, any>,
+    invocations: Map<string, number>,
+    decision: ToolDecision | undefined,
+    parallel: boolean,
+    debug: boolean,
+    signal?: AbortSignal
+  ): Promise<{
+    message: Message | null;
+    agent: Agent | null;
+    context_variables: Record<string, any>;
+    /** 调用失败时的错误信息 */
+    error?: string;
+  }> {
+    throwIfAborted(signal);
+    
+    const { name, arguments: args } = toolCall.function;
+    const toolCallId = toolCall.id; // 保存工具调用ID
+    
+    // 被拒绝的调用不执行，拒绝原因作为工具结果交给模型
+    if (decision?.action === 'reject') {
+      return {
+        message: {
+          role: 'tool',
+          content: `工具 ${name} 的调用被拒绝${decision.reason ? `: ${decision.reason}` : ''}`,
+          name,
+          tool_call_id: toolCallId
+        },
+        agent: null,
+        context_variables: {}
+      };
+    }
+    
+    const startTime = Date.now();
+    
+    tracer.addEvent('function_call', {
+      name,
+      arguments: args,
+      tool_call_id: toolCallId,
+      parallel
+    });
+    
+    if (debug) {
+      this.debugPrint(debug, `调用函数: ${name} 参数: ${args}`);
+    }
+    
+    const failure = (errorMessage: string) => {
+      const endTime = Date.now();
+      
+      tracer.addEvent('function_return', {
+        name,
+        tool_call_id: toolCallId,
+        error: errorMessage,
+        startTime,
+        endTime,
+        duration: endTime - startTime
+      });
+      
+      if (debug) {
+        this.debugPrint(debug, errorMessage);
+      }
+      
+      return {
+        message: {
+          role: 'tool',
+          content: errorMessage,
+          name: name,
+          tool_call_id: toolCallId // 添加工具调用ID
+        } as Message,
+        agent: null,
+        context_variables: {},
+        error: errorMessage
+      };
+    };
+    
+    // 查找函数
+    const invoker = invokerMap[name];
+    
+    if (!invoker) {
+      return failure(`函数 ${name} 未找到`);
+    }
+    
+    const toolGuardrails = agent.guardrails.tools;
+    
+    if (toolGuardrails) {
+      const allowed = agent.isToolAllowed(name);
+      
+      tracer.addEvent('guardrail_check', {
+        type: 'tool_access',
+        tool: name,
+        success: allowed,
+        errors: allowed ? [] : [`Agent ${agent.name} 不允许调用该工具`]
+      });
+      
+      if (!allowed) {
+        return failure(`工具 ${name} 不允许由 Agent ${agent.name} 调用`);
+      }
+    }
+    
+    // 解析并验证参数
+    const validation = this.validateToolArguments(invoker, args);
+    const ruleValidation = validation.valid
+      ? await agent.validateToolArguments(name, validation.value, contextVariables)
+      : { valid: true, errors: [], rules: [] };
+    
+    tracer.addEvent('guardrail_check', {
+      type: 'argument_validation',
+      tool: name,
+      success: validation.valid && ruleValidation.valid,
+      errors: [...validation.errors, ...ruleValidation.errors],
+      rules: ruleValidation.rules
+    });
+    
+    if (!validation.valid || !ruleValidation.valid) {
+      return failure(
+        `工具 ${name} 参数验证失败: ${[...validation.errors, ...ruleValidation.errors].join('; ')}。请修正参数后重试。`
+      );
+    }
+    
+    // 检查并占用调用次数，检查与计数之间没有await，并行调用时同样准确
+    if (toolGuardrails) {
+      const limitError = this.checkInvocationLimit(agent, name, invocations);
+      
+      tracer.addEvent('guardrail_check', {
+        type: 'invocation_limit',
+        tool: name,
+        success: limitError === null,
+        errors: limitError ? [limitError] : [],
+        count: invocations.get(name) ?? 0
+      });
+      
+      if (limitError) {
+        return failure(`工具 ${name} 调用被拒绝: ${limitError}`);
+      }
+    }
+    
+    try {
+      // 执行函数，传入具名参数和上下文变量，并等待异步工具完成
+      const funcResult = await abortable(
+        Promise.resolve(invoker.invoke(validation.value, contextVariables, { signal, span: tracer.getSpanContext() })),
+        signal
+      );
+      const endTime = Date.now();
+      
+      tracer.addEvent('function_return', {
+        name,
+        tool_call_id: toolCallId,
+        result: this.serializeResult(funcResult),
+        startTime,
+        endTime,
+        duration: endTime - startTime
+      });
+      
+      // 处理函数返回结果
+      const result = this.handleFunctionResult(funcResult, name, toolCallId, debug);
+      if (toolGuardrails && result.message?.content) {
+        result.message.content = await this.guardToolResult(tracer, agent, name, result.message.content, validation.value);
+      }
+      return result;
+    } catch (error) {
+      // 取消时中止整个运行，而不是作为工具错误交给模型
+      if (signal?.aborted) {
+        throw error;
+      }
+      
+      // Safely convert error to string
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return failure(`函数 ${name} 执行错误: ${errorMessage}`);
+    }
+  }
+  
+  /**
+   * 检查工具调用上限，未超出时计入本次调用并返回null，否则返回错误信息
+   */
+  private checkInvocationLimit(agent: Agent, name: string, invocations: Map<string, number>): string | null {
+    const limit = agent.getToolPolicy(name).maxInvocations;
+    const totalLimit = agent.guardrails.tools?.maxInvocations;
+    const count = invocations.get(name) ?? 0;
+    const total = [...invocations.values()].reduce((sum, value) => sum + value, 0);
+    
+    if (limit !== undefined && count >= limit) {
+      return `本次运行已达到该工具的调用上限 (${limit})`;
+    }
+    if (totalLimit !== undefined && total >= totalLimit) {
+      return `本次运行已达到工具调用总上限 (${totalLimit})`;
+    }
+    
+    invocations.set(name, count + 1);
+    return null;
+  }
+  
+  /**
+   * 验证并改写工具结果，未通过验证时以验证错误代替结果
+   */
+  private async guardToolResult(
+    tracer: Tracer,
+    agent: Agent,
+    name: string,
+    content: string,
+    args: Record<string, any>
+  ): Promise<string> {
+    const validation = await agent.validateToolResult(name, content, args);
+    
+    tracer.addEvent('guardrail_check', {
+      type: 'result_validation',
+      tool: name,
+      success: validation.valid,
+      errors: validation.errors,
+      rules: validation.rules
+    });
+    
+    if (!validation.valid) {
+      return `工具 ${name} 的结果未通过验证: ${validation.errors.join('; ')}`;
+    }
+    
+    const redacted = await agent.redactToolResult(name, content, args);
+    
+    tracer.addEvent('guardrail_check', {
+      type: 'result_redaction',
+      tool: name,
+      success: redacted === content,
+      errors: redacted === content ? [] : ['工具结果已改写']
+    });
+    
+    return redacted;
+  }
+  
+  /**
+   * 解析工具调用参数并按Schema验证
+   */
+  private validateToolArguments(
+    invoker: ToolInvoker,
+    args: string
+  ): { valid: boolean; errors: string[]; value: Record<string, any> } {
+    let parsedArgs: unknown;
+    
+    try {
+      parsedArgs = args && args.trim() ? JSON.parse(args) : {};
+    } catch (error) {
+      return {
+        valid: false,
+        errors: [`参数不是有效的JSON: ${error instanceof Error ? error.message : String(error)}`],
+        value: {}
+      };
+    }
+    
+    return validateSchema<Record<string, any>>(invoker.parameters, parsedArgs);
+  }
+  
+  /**
+   * 最后一条助手消息之后只有工具消息时，返回其中尚未得到结果的工具调用，没有时返回null
+   */
+  private getUnansweredToolCalls(messages: Message[]): ToolCall[] | null {
+    const lastAssistantIndex = messages.map(m => m.role).lastIndexOf('assistant');
+    const following = messages.slice(lastAssistantIndex + 1);
+    if (lastAssistantIndex === -1 || following.some(m => m.role !== 'tool')) {
+      return null;
+    }
+    
+    const answered = new Set(following.map(m => m.tool_call_id));
+    const unanswered = (messages[lastAssistantIndex].tool_calls ?? []).filter(toolCall => !answered.has(toolCall.id));
+    return unanswered.length > 0 ? unanswered : null;
+  }
+  
+  /**
+   * 存在需要审批且尚无决定的工具调用时，返回全部待执行的调用，否则返回null
+   * execute_tools 为 false 时全部调用都需要审批
+   */
+  private async collectPendingApprovals(
+    agent: Agent,
+    toolCalls: ToolCall[],
+    contextVariables: Record<string, any>,
+    executeTools: boolean,
+    decisions: Record<string, ToolDecision>
+  ): Promise<PendingToolCall[] | null> {
+    const pending: PendingToolCall[] = [];
+    
+    for (const toolCall of toolCalls) {
+      let args: Record<string, any> = {};
+      try {
+        args = JSON.parse(toolCall.function.arguments || '{}');
+      } catch {
+        // 参数无效时按空参数判断，执行时由参数验证报告错误
+      }
+      
+      pending.push({
+        tool_call: toolCall,
+        requiresApproval: !executeTools || await agent.toolRequiresApproval(toolCall.function.name, args, contextVariables)
+      });
+    }
+    
+    return pending.some(p => p.requiresApproval && !decisions[p.tool_call.id]) ? pending : null;
+  }
+  
+  /**
+   * 记录调用方的决定，并将修改后的参数写回工具调用和消息历史
+   */
+  private applyToolDecisions(
+    tracer: Tracer,
+    messages: Message[],
+    toolCalls: ToolCall[],
+    decisions: Record<string, ToolDecision>
+  ): ToolCall[] {
+    return toolCalls.map(toolCall => {
+      const decision = decisions[toolCall.id];
+      if (!decision) {
+        return toolCall;
+      }
+      
+      tracer.addEvent('tool_approval', {
+        tool: toolCall.function.name,
+        tool_call_id: toolCall.id,
+        decision: decision.action,
+        reason: decision.action === 'reject' ? decision.reason : undefined,
+        arguments: decision.action === 'edit' ? decision.arguments : undefined
+      });
+      
+      if (decision.action !== 'edit') {
+        return toolCall;
+      }
+      
+      const edited: ToolCall = {
+        ...toolCall,
+        function: { ...toolCall.function, arguments: JSON.stringify(decision.arguments) }
+      };
+      
+      // 恢复的工具调用属于最后一条助手消息，历史中更早的同ID调用不受影响
+      const index = messages.map(m => m.role).lastIndexOf('assistant');
+      if (index !== -1 && messages[index].tool_calls?.some(call => call.id === toolCall.id)) {
+        messages[index] = {
+          ...messages[index],
+          tool_calls: messages[index].tool_calls!.map(call => (call.id === toolCall.id ? edited : call))
+        };
+      }
+      
+      return edited;
+    });
+  }
+  
+  /**
+   * 为尚未得到结果的工具调用补充取消消息，保证部分结果仍是合法的对话历史
+   */
+  private cancelPendingToolCalls(messages: Message[]): Message[] {
+    const lastAssistantIndex = messages.map(m => m.role).lastIndexOf('assistant');
+    const toolCalls = messages[lastAssistantIndex]?.tool_calls ?? [];
+    const answered = new Set(messages.slice(lastAssistantIndex + 1).map(m => m.tool_call_id));
+    
+    const cancelled: Message[] = toolCalls
+      .filter(toolCall => !answered.has(toolCall.id))
+      .map(toolCall => ({
+        role: 'tool',
+        content: `工具 ${toolCall.function.name} 调用已取消`,
+        name: toolCall.function.name,
+        tool_call_id: toolCall.id
+      }));
+    
+    return [...messages, ...cancelled];
+  }
+  
   /**
    * 处理函数返回的结果
    */
@@ -654,9 +1505,16 @@ export class Swarm {
         context_variables: result.context_variables || {}
       };
     } else if (result instanceof Agent) {
-      // 直接返回Agent对象
+      // 直接返回Agent对象，仍需回应该工具调用，否则后续请求中的工具调用缺少对应结果
+      const message: Message = {
+        role: 'tool',
+        content: `已转接到 ${result.name}`,
+        name: funcName,
+        tool_call_id: toolCallId
+      };
+      
       return {
-        message: null,
+        message,
         agent: result,
         context_variables: {}
       };
@@ -716,20 +1574,35 @@ export class Swarm {
 
   /**
    * 获取聊天补全
-   * 辅助方法，用于获取模型回复
+   * 辅助方法，用于获取模型回复，messages为包含系统指令的完整请求消息
    */
-  private async getChatCompletion(
+  private getChatCompletion(
+    tracer: Tracer,
+    agent: Agent,
+    messages: Message[],
+    model_override: string | null,
+    stream: true,
+    debug: boolean,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatCompletionChunk, void, unknown>;
+  private getChatCompletion(
+    tracer: Tracer,
+    agent: Agent,
+    messages: Message[],
+    model_override: string | null,
+    stream: false,
+    debug: boolean,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse>;
+  private getChatCompletion(
+    tracer: Tracer,
     agent: Agent,
-    history: Message[],
-    context_variables: Record<string, any>,
+    messages: Message[],
     model_override: string | null,
     stream: boolean,
-    debug: boolean
-  ) {
-    // 获取指令
-    const instructions = agent.getInstructions(context_variables);
-    const messages = [{ role: 'system', content: instructions }, ...history];
-    
+    debug: boolean,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatCompletionChunk, void, unknown> | Promise<ChatCompletionResponse> {
     if (debug) {
       this.debugPrint(debug, `获取聊天补全: ${JSON.stringify(messages.slice(0, 2))}`);
     }
@@ -738,10 +1611,10 @@ export class Swarm {
     const tools = agent.getFunctionSchemas();
     
     // 构建请求参数
-    const createParams: any = {
+    const createParams: ChatCompletionRequest = {
       model: model_override || agent.model,
       messages: messages,
-      tools: tools.length > 0 ? tools : undefined,
+      tools: tools.length > 0 ? tools as ChatCompletionRequest['tools'] : undefined,
       tool_choice: agent.tool_choice || undefined,
       max_tokens: agent.maxTokens
     };
@@ -754,9 +1627,74 @@ export class Swarm {
     // 添加流支持
     if (stream) {
       createParams.stream = true;
-      return this.modelProvider.createChatCompletionStream(createParams);
+      return this.providers.createChatCompletionStream(createParams, this.callOptions(tracer, signal));
     }
     
-    return this.modelProvider.createChatCompletion(createParams);
+    return this.providers.createChatCompletion(createParams, this.callOptions(tracer, signal));
+  }
+  
+  /**
+   * 提供商调用选项，将重试和切换记录到追踪
+   */
+  private callOptions(tracer: Tracer, signal?: AbortSignal): ProviderCallOptions {
+    return {
+      signal,
+      onFallback: (from, to, error) => this.recordFallback(tracer, from, to, error),
+      onAttempt: attempt => this.recordAttempt(tracer, attempt)
+    };
+  }
+  
+  /**
+   * 记录每次模型调用尝试
+   */
+  private recordAttempt(tracer: Tracer, attempt: ProviderAttempt): void {
+    tracer.addEvent('model_attempt', {
+      provider: attempt.provider,
+      model: attempt.model,
+      attempt: attempt.attempt,
+      success: attempt.success,
+      duration: attempt.duration,
+      status: attempt.status,
+      error: attempt.error === undefined
+        ? undefined
+        : attempt.error instanceof Error ? attempt.error.message : String(attempt.error),
+      retryIn: attempt.retryIn
+    });
+  }
+  
+  /**
+   * 记录提供商切换事件
+   */
+  private recordFallback(tracer: Tracer, from: ResolvedProvider, to: ResolvedProvider, error: unknown): void {
+    tracer.addEvent('provider_fallback', {
+      from: from.providerId,
+      to: to.providerId,
+      model: to.model,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+  
+  /**
+   * 添加追踪接收器，每次运行结束后接收该运行的完整追踪
+   */
+  addTraceSink(sink: TraceSink): this {
+    this.traceSinks.push(sink);
+    return this;
+  }
+  
+  /**
+   * 移除追踪接收器
+   */
+  removeTraceSink(sink: TraceSink): this {
+    this.traceSinks = this.traceSinks.filter(existing => existing !== sink);
+    return this;
+  }
+  
+  /**
+   * 注册模型提供商，Agent可通过 "id:model" 形式的模型名称使用
+   */
+  registerProvider(id: string, provider: ModelProvider): this {
+    this.providers.register(id, provider);
+    return this;
   }
 }
@@ -0,0 +1,337 @@
+import { FunctionType, JSONSchema, RequestOptions, Tool, ToolSchema } from './types';
+
+/**
+ * 工具名称需满足OpenAI的命名限制
+ */
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * 函数参数描述
+ */
+interface ParameterInfo {
+  name: string;
+  optional: boolean;
+  rest: boolean;
+  schema: JSONSchema;
+}
+
+/**
+ * 工具调用器 - 统一普通函数与工具定义的调用方式
+ */
+export interface ToolInvoker {
+  name: string;
+  parameters: JSONSchema;
+  invoke: (args: Record<string, any>, context_variables: Record<string, any>, options?: RequestOptions) => any;
+}
+
+/**
+ * 定义一个工具，并校验名称与参数Schema
+ */
+export function defineTool<TArgs extends Record<string, any> = Record<string, any>>(
+  tool: Tool<TArgs>
+): Tool<TArgs> {
+  if (!TOOL_NAME_PATTERN.test(tool.name)) {
+    throw new Error(`工具名称无效: ${tool.name}`);
+  }
+
+  if (tool.parameters.type !== undefined && tool.parameters.type !== 'object') {
+    throw new Error(`工具 ${tool.name} 的参数Schema必须是object类型`);
+  }
+
+  return {
+    ...tool,
+    parameters: {
+      ...tool.parameters,
+      type: 'object',
+      properties: tool.parameters.properties || {}
+    }
+  };
+}
+
+/**
+ * 判断是否为工具定义
+ */
+export function isTool(value: unknown): value is Tool {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Tool).name === 'string' &&
+    typeof (value as Tool).handler === 'function' &&
+    typeof (value as Tool).parameters === 'object'
+  );
+}
+
+/**
+ * 获取工具或函数的名称
+ */
+export function getToolName(fn: FunctionType): string | null {
+  if (typeof fn === 'function') {
+    return fn.name || null;
+  }
+  if (isTool(fn)) {
+    return fn.name;
+  }
+  if (typeof fn === 'object' && fn !== null && fn.function?.name) {
+    return fn.function.name;
+  }
+  return null;
+}
+
+/**
+ * 将函数或工具定义转换为发送给模型的Schema
+ */
+export function toToolSchema(fn: Tool): ToolSchema;
+export function toToolSchema(fn: FunctionType): ToolSchema | Record<string, any> | string;
+export function toToolSchema(fn: FunctionType): ToolSchema | Record<string, any> | string {
+  if (isTool(fn)) {
+    return {
+      type: 'function',
+      function: {
+        name: fn.name,
+        description: fn.description || `Function ${fn.name}`,
+        parameters: {
+          type: 'object',
+          properties: {},
+          ...fn.parameters
+        }
+      }
+    };
+  }
+
+  // 如果函数已经是JSON Schema格式，直接返回
+  if (typeof fn !== 'function') {
+    return fn;
+  }
+
+  return functionToSchema(fn);
+}
+
+/**
+ * 根据普通函数的签名推断Schema
+ * 第一个参数固定接收上下文变量，不暴露给模型
+ */
+export function functionToSchema(fn: Function): ToolSchema {
+  const fnName = fn.name;
+  const params = getFunctionParameters(fn).slice(1);
+
+  // 提取函数体内的JSDoc注释作为描述
+  const docMatch = fn.toString().match(/\/\*\*([\s\S]*?)\*\//);
+  const description = docMatch ? docMatch[1].replace(/\s*\*\s*/g, ' ').trim() : '';
+
+  const properties: Record<string, JSONSchema> = {};
+  for (const param of params) {
+    properties[param.name] = param.schema;
+  }
+
+  return {
+    type: 'function',
+    function: {
+      name: fnName,
+      description: description || `Function ${fnName}`,
+      parameters: {
+        type: 'object',
+        properties,
+        required: params.filter(p => !p.optional).map(p => p.name)
+      }
+    }
+  };
+}
+
+/**
+ * 获取普通函数的参数名列表（包含上下文变量参数）
+ */
+export function getFunctionParameterNames(fn: Function): string[] {
+  return getFunctionParameters(fn).map(p => p.name);
+}
+
+/**
+ * 为函数或工具定义创建调用器
+ * 普通函数按签名中的参数名将具名参数映射到对应位置，与模型输出的键顺序无关
+ */
+export function createToolInvoker(fn: FunctionType): ToolInvoker | null {
+  if (isTool(fn)) {
+    return {
+      name: fn.name,
+      parameters: toToolSchema(fn).function.parameters,
+      invoke: (args, context_variables, options = {}) => fn.handler(args, context_variables, options)
+    };
+  }
+
+  if (typeof fn !== 'function') {
+    return null;
+  }
+
+  const params = getFunctionParameters(fn).slice(1);
+  return {
+    name: fn.name,
+    parameters: functionToSchema(fn).function.parameters,
+    invoke: (args, context_variables) => {
+      const positional: any[] = [];
+      for (const param of params) {
+        if (param.rest && Array.isArray(args[param.name])) {
+          positional.push(...args[param.name]);
+        } else {
+          positional.push(args[param.name]);
+        }
+      }
+      return fn(context_variables, ...positional);
+    }
+  };
+}
+
+/**
+ * 解析函数签名中的参数
+ * 支持普通函数、箭头函数、async函数、默认值、剩余参数和解构参数
+ */
+function getFunctionParameters(fn: Function): ParameterInfo[] {
+  const source = stripComments(fn.toString());
+  const paramList = extractParameterList(source);
+  if (!paramList) {
+    return [];
+  }
+
+  return splitTopLevel(paramList)
+    .map(p => p.trim())
+    .filter(p => p)
+    .map((param, index) => {
+      const isRest = param.startsWith('...');
+      const withoutRest = isRest ? param.slice(3).trim() : param;
+      const [declaration, ...defaultParts] = splitTopLevel(withoutRest, '=');
+      const hasDefault = defaultParts.length > 0;
+      const identifier = declaration.trim();
+
+      // 解构参数没有名称，使用位置生成占位名称
+      const isIdentifier = /^[A-Za-z_$][\w$]*$/.test(identifier);
+      const name = isIdentifier ? identifier : `arg${index}`;
+
+      return {
+        name,
+        optional: hasDefault || isRest,
+        rest: isRest,
+        schema: inferParameterSchema(identifier, isRest, hasDefault ? defaultParts[0].trim() : undefined)
+      };
+    });
+}
+
+/**
+ * 根据参数声明和默认值推断参数Schema
+ * 无法推断时按字符串处理
+ */
+function inferParameterSchema(declaration: string, isRest: boolean, defaultValue?: string): JSONSchema {
+  if (isRest || declaration.startsWith('[')) {
+    return { type: 'array' };
+  }
+  if (declaration.startsWith('{')) {
+    return { type: 'object' };
+  }
+  if (defaultValue === undefined) {
+    return { type: 'string' };
+  }
+  if (/^-?\d+(\.\d+)?$/.test(defaultValue)) {
+    return { type: 'number', default: Number(defaultValue) };
+  }
+  if (defaultValue === 'true' || defaultValue === 'false') {
+    return { type: 'boolean', default: defaultValue === 'true' };
+  }
+  if (defaultValue.startsWith('[')) {
+    return { type: 'array' };
+  }
+  if (defaultValue.startsWith('{')) {
+    return { type: 'object' };
+  }
+  return { type: 'string' };
+}
+
+/**
+ * 提取参数列表部分的源码
+ */
+function extractParameterList(source: string): string | null {
+  const trimmed = source.trim();
+
+  // 单参数箭头函数：x => ... 或 async x => ...
+  const singleArrow = trimmed.match(/^(?:async\s+)?([A-Za-z_$][\w$]*)\s*=>/);
+  if (singleArrow) {
+    return singleArrow[1];
+  }
+
+  const start = trimmed.indexOf('(');
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        return trimmed.slice(start + 1, i);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 按顶层分隔符切分，忽略括号和字符串内部的分隔符
+ */
+function splitTopLevel(source: string, separator: string = ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      current += char;
+      if (char === '\\') {
+        current += source[++i] ?? '';
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+    } else if (
+      depth === 0 &&
+      char === separator &&
+      // 跳过 => 、== 等运算符
+      !(separator === '=' && (source[i + 1] === '>' || source[i + 1] === '=' || source[i - 1] === '='))
+    ) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return separator === '=' ? [parts[0], ...(parts.length > 1 ? [parts.slice(1).join('=')] : [])] : parts;
+}
+
+/**
+ * 移除源码中的注释
+ */
+function stripComments(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+}
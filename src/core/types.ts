@@ -1,3 +1,8 @@
+import type { ProviderRoute } from '../providers/registry';
+import type { RetryPolicy } from '../providers/retry';
+import type { RateLimiter, RateLimitOptions } from '../providers/rate-limit';
+import type { Agent } from './agent';
+
 /**
  * 消息类型，与OpenAI API兼容
  */
@@ -10,14 +15,19 @@ export interface Message {
     name: string;
     arguments: string;
   };
-  tool_calls?: Array<{
-    id: string;
-    type: 'function';
-    function: {
-      name: string;
-      arguments: string;
-    };
-  }>;
+  tool_calls?: ToolCall[];
+}
+
+/**
+ * 工具调用，与OpenAI API兼容
+ */
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
 }
 
 /**
@@ -40,20 +50,183 @@ export interface AgentConfig {
 export type InstructionsType = string | ((context_variables?: Record<string, any>) => string);
 
 /**
- * 函数类型：可以是函数、字符串或函数定义对象
+ * 函数类型：可以是函数、工具定义、字符串或函数定义对象
  */
-export type FunctionType = Function | string | Record<string, any>;
+export type FunctionType = Function | Tool<any> | string | Record<string, any>;
+
+/**
+ * JSON Schema（工具参数描述所需的子集）
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  enum?: Array<string | number | boolean | null>;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  additionalProperties?: boolean | JSONSchema;
+  default?: any;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+}
+
+/**
+ * JSON Schema 基本类型
+ */
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * 工具定义 - 带有类型化参数Schema的一等工具
+ */
+export interface Tool<TArgs extends Record<string, any> = Record<string, any>> {
+  name: string;
+  description?: string;
+  parameters: JSONSchema;
+  /** options.signal 在运行被取消时触发，长时间运行的工具应据此提前结束 */
+  handler: (args: TArgs, context_variables: Record<string, any>, options: RequestOptions) => any;
+  /** 执行前是否需要人工审批，可根据参数动态判断 */
+  requiresApproval?: ApprovalRequirement<TArgs>;
+}
+
+/**
+ * 工具调用是否需要人工审批
+ */
+export type ApprovalRequirement<TArgs extends Record<string, any> = Record<string, any>> =
+  | boolean
+  | ((args: TArgs, context_variables: Record<string, any>) => boolean | Promise<boolean>);
+
+/**
+ * 发送给模型的工具Schema，与OpenAI API兼容
+ */
+export interface ToolSchema {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: JSONSchema;
+  };
+}
+
+/**
+ * 上下文变量类型
+ */
+export type ContextVariables = Record<string, any>;
+
+/**
+ * 运行结束的原因
+ * - final_answer: 模型给出了不含工具调用的回复
+ * - max_turns: 达到最大轮数
+ * - tool_requires_approval: 工具调用等待调用方审批（工具要求审批或 execute_tools 为 false），见 Response.pendingToolCalls
+ * - error: 模型或工具调用出错
+ * - aborted: 运行被取消或超过截止时间
+ * - guardrail_refusal: 输入未通过验证，返回了配置的拒绝回复
+ * - budget_exceeded: Token或费用达到本次运行的预算上限
+ */
+export type StopReason =
+  | 'final_answer'
+  | 'max_turns'
+  | 'tool_requires_approval'
+  | 'error'
+  | 'aborted'
+  | 'guardrail_refusal'
+  | 'budget_exceeded';
 
 /**
  * 响应类型
  */
-export interface Response {
+export interface Response<TContext extends ContextVariables = ContextVariables> {
   messages: Message[];
-  agent: any; // Agent类型，避免循环依赖
-  context_variables: Record<string, any>;
+  agent: Agent;
+  context_variables: TContext;
+  stopReason: StopReason;
+  /** stopReason 为 error 时的错误 */
+  error?: Error;
+  /** stopReason 为 tool_requires_approval 时，最后一条助手消息中尚未执行的工具调用 */
+  pendingToolCalls?: PendingToolCall[];
+  /** 本次运行的ID，与追踪事件中的runId一致 */
+  runId: string;
   trace?: TraceEvent[];
+  /** 层级追踪跨度：run → agent → turn → model_call / tool_call */
+  spans?: Span[];
+  /** 本次运行全部模型调用的Token用量和费用，恢复的运行包含暂停前的用量 */
+  usage: RunUsage;
+  /** 各工具的调用次数，恢复的运行包含暂停前的次数 */
+  toolInvocations?: Record<string, number>;
+}
+
+/**
+ * 等待审批的工具调用
+ */
+export interface PendingToolCall {
+  tool_call: ToolCall;
+  /** 是否需要审批，不需要审批的调用在恢复运行时自动执行 */
+  requiresApproval: boolean;
 }
 
+/**
+ * 调用方对工具调用的决定
+ * - approve: 按原参数执行
+ * - edit: 使用修改后的参数执行，消息历史中的工具调用同步更新
+ * - reject: 不执行，将拒绝原因作为工具结果返回给模型
+ */
+export type ToolDecision =
+  | { action: 'approve' }
+  | { action: 'edit'; arguments: Record<string, any> }
+  | { action: 'reject'; reason?: string };
+
+/**
+ * Swarm.run / Swarm.runStream 的运行选项
+ */
+export interface RunOptions<TContext extends ContextVariables = ContextVariables> {
+  context_variables?: TContext;
+  /** 最大模型调用轮数，默认不限制 */
+  max_turns?: number;
+  /** 是否执行模型请求的工具调用，默认执行 */
+  execute_tools?: boolean;
+  /** 覆盖Agent配置的模型 */
+  model_override?: string | null;
+  debug?: boolean;
+  /** 取消信号，触发后运行尽快停止并返回已有的部分结果 */
+  signal?: AbortSignal;
+  /** 整个运行的截止时间（Date或毫秒时间戳），到达后按取消处理 */
+  deadline?: Date | number;
+  /** 恢复暂停的运行时对待审批工具调用的决定，以tool_call id为键 */
+  toolDecisions?: Record<string, ToolDecision>;
+  /** 运行ID，默认自动生成，可传入请求ID等便于关联 */
+  runId?: string;
+  /** 父跨度，在工具内启动子运行时传入工具的 options.span，使子运行的run跨度挂在工具调用之下 */
+  parentSpan?: SpanContext;
+  /** 本次运行的用量预算，覆盖 SwarmConfig.budget */
+  budget?: UsageBudget;
+  /** 之前的用量，在此基础上继续统计和检查预算，恢复暂停的运行时传入 */
+  usage?: RunUsage;
+  /** 之前的工具调用次数，在此基础上检查调用上限，恢复暂停的运行时传入 */
+  toolInvocations?: Record<string, number>;
+}
+
+/**
+ * 执行引擎产出的运行事件，run与runStream共用
+ * 非流式模式下每次模型调用只产出一个完整的content事件
+ */
+export type StreamEvent<TContext extends ContextVariables = ContextVariables> =
+  | { type: 'stream_start'; agent: string }
+  | { type: 'content'; content: string }
+  | { type: 'tool_call'; tool_call: ToolCall }
+  | { type: 'usage'; usage: Usage }
+  | { type: 'stream_end'; messages: Message[]; usage: Usage | null }
+  | { type: 'validation_failed'; errors: string[]; attempt: number; action: OutputValidationPolicy['action'] }
+  | { type: 'tool_response'; message: Message }
+  | { type: 'handoff'; from: string; to: string }
+  | { type: 'approval_required'; pendingToolCalls: PendingToolCall[] }
+  | { type: 'error'; error: string; cause?: unknown }
+  | { type: 'aborted'; reason: string }
+  | { type: 'budget_exceeded'; limit: keyof UsageBudget; value: number; max: number }
+  | ({ type: 'complete' } & Response<TContext>);
+
 /**
  * 守卫配置
  */
@@ -61,6 +234,81 @@ export interface GuardrailConfig {
   inputValidation?: InputValidationRule[];
   outputValidation?: OutputValidationRule[];
   safetyChecks?: SafetyCheckRule[];
+  /** 设置后，输入验证失败时以该内容作为助手回复结束运行，而不是抛出GuardrailViolationError */
+  inputRefusal?: string;
+  /** 输出验证失败时的处理策略，默认warn */
+  outputValidationPolicy?: OutputValidationPolicy;
+  /** 工具调用守卫 */
+  tools?: ToolGuardrailConfig;
+}
+
+/**
+ * 工具调用守卫配置
+ * 未通过的调用不会执行，错误信息作为工具消息返回给模型
+ */
+export interface ToolGuardrailConfig {
+  /** 允许调用的工具，设置后其余工具既不提供给模型也不会执行 */
+  allow?: string[];
+  /** 禁止调用的工具 */
+  deny?: string[];
+  /** 单次运行内全部工具的最大调用次数 */
+  maxInvocations?: number;
+  /** 按工具名称配置的策略 */
+  policies?: Record<string, ToolPolicy>;
+  /** 全部工具的结果写入消息历史前执行的改写或脱敏，在各工具的redactResult之后执行 */
+  redactResult?: (result: string, tool: string, args: Record<string, any>) => string | Promise<string>;
+}
+
+/**
+ * 单个工具的守卫策略
+ */
+export interface ToolPolicy {
+  /** 参数验证规则，在参数Schema验证通过后执行 */
+  argumentValidation?: ToolArgumentRule[];
+  /** 结果验证规则，未通过时以验证错误代替结果 */
+  resultValidation?: ToolResultRule[];
+  /** 单次运行内该工具的最大调用次数 */
+  maxInvocations?: number;
+  /** 结果写入消息历史前的改写或脱敏 */
+  redactResult?: (result: string, args: Record<string, any>) => string | Promise<string>;
+  /** 执行前是否需要人工审批，优先于工具定义中的requiresApproval，可用于普通函数 */
+  requiresApproval?: ApprovalRequirement;
+}
+
+/**
+ * 工具参数验证规则
+ */
+export interface ToolArgumentRule {
+  name: string;
+  validator: (args: Record<string, any>, context_variables: Record<string, any>) => boolean | Promise<boolean>;
+  errorMessage: string;
+}
+
+/**
+ * 工具结果验证规则
+ */
+export interface ToolResultRule {
+  name: string;
+  validator: (result: string, args: Record<string, any>) => boolean | Promise<boolean>;
+  errorMessage: string;
+}
+
+/**
+ * 输出验证失败时的处理策略
+ * - warn: 记录后照常返回（流式输出不缓冲）
+ * - block: 抛出OutputValidationError
+ * - retry: 将验证错误附加到对话中让模型重新生成，用尽后按fallback处理，未配置fallback时按block处理
+ * - fallback: 返回固定回复或转交给指定Agent
+ * 除warn外，流式模式下会缓冲模型输出，验证通过后再产出内容
+ */
+export interface OutputValidationPolicy {
+  action: 'warn' | 'block' | 'retry' | 'fallback';
+  /** retry时最多重新生成的次数，默认 2 */
+  maxRetries?: number;
+  /** 兜底的固定回复 */
+  fallbackResponse?: string;
+  /** 兜底转交的Agent，优先于fallbackResponse */
+  fallbackAgent?: Agent;
 }
 
 /**
@@ -86,10 +334,31 @@ export interface OutputValidationRule {
  */
 export interface SafetyCheckRule {
   name: string;
+  /** 返回false表示内容未通过检查 */
   checker: (content: string) => boolean | Promise<boolean>;
   severity: 'warning' | 'error';
+  /** log: 只记录；block: 终止运行；modify: 用modify改写内容后继续 */
   action: 'log' | 'block' | 'modify';
   errorMessage: string;
+  /** action为modify时改写或脱敏内容，未提供时按block处理 */
+  modify?: (content: string) => string | Promise<string>;
+  /** 适用的检查对象，默认全部 */
+  appliesTo?: SafetyCheckTarget[];
+}
+
+/**
+ * 安全检查对象：用户输入、模型输出、工具结果
+ */
+export type SafetyCheckTarget = 'input' | 'output' | 'tool_result';
+
+/**
+ * 单条安全规则的违规记录
+ */
+export interface SafetyViolation {
+  rule: string;
+  severity: SafetyCheckRule['severity'];
+  action: SafetyCheckRule['action'];
+  message: string;
 }
 
 /**
@@ -97,8 +366,205 @@ export interface SafetyCheckRule {
  */
 export interface TraceEvent {
   timestamp: number;
-  type: 'agent_start' | 'agent_end' | 'function_call' | 'function_return' | 'handoff' | 'guardrail_check' | 'model_call';
+  type: 'agent_start' | 'agent_end' | 'function_call' | 'function_return' | 'handoff' | 'guardrail_check' | 'model_call' | 'model_attempt' | 'provider_fallback' | 'aborted' | 'tool_approval' | 'budget_exceeded';
   data: any;
+  /** 所属运行的ID */
+  runId?: string;
+  /** 事件发生时所在的跨度 */
+  spanId?: string;
+}
+
+/**
+ * 跨度类型
+ */
+export type SpanKind = 'run' | 'agent' | 'turn' | 'model_call' | 'tool_call';
+
+/**
+ * 跨度状态，unset表示未正常结束（如运行被提前停止消费）
+ */
+export type SpanStatus = 'ok' | 'error' | 'unset';
+
+/**
+ * 追踪跨度 - 带起止时间、状态和父子关系的一段执行过程
+ */
+export interface Span {
+  id: string;
+  /** 父跨度ID，run跨度在顶层运行中为null */
+  parentId: string | null;
+  runId: string;
+  kind: SpanKind;
+  name: string;
+  startTime: number;
+  endTime?: number;
+  /** 持续时间（毫秒） */
+  duration?: number;
+  status: SpanStatus;
+  /** status为error时的错误信息 */
+  error?: string;
+  attributes: Record<string, any>;
+}
+
+/**
+ * 跨度的引用，用于跨运行建立父子关系
+ */
+export interface SpanContext {
+  runId: string;
+  spanId: string;
+  /** 顶层运行的ID，嵌套的子运行沿用它，导出时据此归入同一条分布式追踪 */
+  traceId?: string;
+}
+
+/**
+ * 一次运行的完整追踪
+ */
+export interface RunTrace {
+  runId: string;
+  /** 顶层运行的ID，独立运行时与runId相同 */
+  traceId: string;
+  /** 起始Agent */
+  agent: string;
+  startTime: number;
+  endTime: number;
+  /** 运行抛出异常时为空 */
+  stopReason?: StopReason;
+  error?: string;
+  events: TraceEvent[];
+  spans: Span[];
+}
+
+/**
+ * 追踪接收器 - 接收每次运行结束后的完整追踪，可用于持久化或导出到外部系统
+ */
+export interface TraceSink {
+  export(trace: RunTrace): void | Promise<void>;
+}
+
+/**
+ * 聊天补全请求
+ * Swarm内部统一使用OpenAI兼容格式，由各提供商适配器转换为自身的协议
+ */
+export interface ChatCompletionRequest {
+  model: string;
+  messages: Message[];
+  tools?: Array<ToolSchema | Record<string, any>>;
+  tool_choice?: string | Record<string, any>;
+  max_tokens?: number;
+  parallel_tool_calls?: boolean;
+  stream?: boolean;
+  [key: string]: any;
+}
+
+/**
+ * Token用量
+ */
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * 模型价格（美元/百万Token）
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 模型价格表，以模型名称为键；未精确命中时使用最长的前缀匹配（如 gpt-4o 匹配 gpt-4o-2024-08-06）
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * 运行的用量预算，任一项达到上限后不再调用模型，运行以 budget_exceeded 结束
+ */
+export interface UsageBudget {
+  maxTokens?: number;
+  maxPromptTokens?: number;
+  maxCompletionTokens?: number;
+  /** 费用上限（美元），需要配置 SwarmConfig.pricing */
+  maxCost?: number;
+}
+
+/**
+ * 汇总的Token用量
+ */
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** 模型调用次数 */
+  calls: number;
+  /** 费用（美元），未配置价格表时为空；价格表中没有的模型不计费 */
+  cost?: number;
+}
+
+/**
+ * 单轮的用量
+ */
+export interface TurnUsage extends UsageTotals {
+  turn: number;
+  agent: string;
+  model: string;
+}
+
+/**
+ * 一次运行的用量，按Agent、模型和轮次汇总
+ */
+export interface RunUsage extends UsageTotals {
+  byAgent: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byTurn: TurnUsage[];
+}
+
+/**
+ * 聊天补全响应（归一化后的格式）
+ */
+export interface ChatCompletionResponse {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: ToolCall[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: Usage;
+}
+
+/**
+ * 流式工具调用增量
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * 流式聊天补全块（归一化后的格式）
+ */
+export interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string | null;
+      tool_calls?: ToolCallDelta[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: Usage | null;
 }
 
 /**
@@ -106,17 +572,64 @@ export interface TraceEvent {
  */
 export interface ModelProvider {
   id: string;
-  createChatCompletion: (options: any) => Promise<any>;
-  createChatCompletionStream: (options: any) => AsyncGenerator<any, void, unknown>;
+  createChatCompletion: (
+    options: ChatCompletionRequest,
+    requestOptions?: RequestOptions
+  ) => Promise<ChatCompletionResponse>;
+  createChatCompletionStream: (
+    options: ChatCompletionRequest,
+    requestOptions?: RequestOptions
+  ) => AsyncGenerator<ChatCompletionChunk, void, unknown>;
+}
+
+/**
+ * 模型调用和工具执行的请求选项
+ */
+export interface RequestOptions {
+  /** 取消信号 */
+  signal?: AbortSignal;
+  /** 工具调用所在的追踪跨度，在工具内启动子运行时可作为 RunOptions.parentSpan 传入 */
+  span?: SpanContext;
 }
 
 /**
  * Swarm配置
  */
 export interface SwarmConfig {
+  /** 默认OpenAI提供商的API密钥，未设置时读取环境变量或配置文件 */
   apiKey?: string;
+  /** 默认OpenAI提供商的服务地址 */
+  baseURL?: string;
+  /** 默认OpenAI提供商的请求超时（毫秒） */
+  timeout?: number;
+  /** 默认OpenAI提供商的客户端重试次数 */
+  maxRetries?: number;
+  /** 配置文件路径 */
+  configFile?: string;
   modelProvider?: ModelProvider;
+  /** 具名提供商，Agent可通过 "id:model" 形式的模型名称选择 */
+  providers?: Record<string, ModelProvider>;
+  /** 模型名称没有前缀且未命中路由规则时使用的提供商 */
+  defaultProvider?: string;
+  /** 按模型名称选择提供商的路由规则 */
+  routes?: ProviderRoute[];
+  /** 提供商出错或超时后依次尝试的备用提供商 */
+  fallbacks?: Record<string, string[]>;
+  /** 单个提供商调用的超时（毫秒） */
+  providerTimeout?: number;
+  /** 模型调用失败后的重试策略（指数退避加抖动，遵循Retry-After），未设置时不重试 */
+  retry?: RetryPolicy;
+  /** 客户端速率限制，同一Swarm上的所有运行共享 */
+  rateLimit?: RateLimitOptions | RateLimiter;
   enableTracing?: boolean;
+  /** 追踪接收器，每次运行结束后接收该运行的完整追踪 */
+  traceSinks?: TraceSink[];
+  /** 并行工具调用的最大并发数，默认不限制 */
+  toolConcurrency?: number;
+  /** 模型价格表，用于计算每次运行的费用 */
+  pricing?: PriceTable;
+  /** 每次运行的默认用量预算 */
+  budget?: UsageBudget;
 }
 
 /**
@@ -124,6 +637,6 @@ export interface SwarmConfig {
  */
 export interface HandoffCondition {
   condition: (contextVariables: Record<string, any>) => boolean;
-  targetAgent: any; // Agent类型，避免循环依赖
+  targetAgent: Agent;
   updateContextVariables?: Record<string, any>;
 }
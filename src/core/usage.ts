@@ -0,0 +1,137 @@
+import { ModelPrice, PriceTable, RunUsage, TurnUsage, Usage, UsageBudget, UsageTotals } from './types';
+
+/**
+ * 在价格表中查找模型价格：先精确匹配，再取最长的前缀匹配
+ */
+export function findModelPrice(pricing: PriceTable, model: string): ModelPrice | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+
+  const prefix = Object.keys(pricing)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : pricing[prefix];
+}
+
+/**
+ * 按价格计算一次模型调用的费用（美元）
+ */
+export function calculateCost(usage: Usage, price: ModelPrice): number {
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+}
+
+/**
+ * 运行用量统计 - 记录每次模型调用的用量，按Agent、模型和轮次汇总并检查预算
+ */
+export class UsageTracker {
+  private pricing?: PriceTable;
+  private turns: TurnUsage[];
+  private turnOffset: number;
+
+  /**
+   * initial为之前的用量（如暂停前的运行），新记录的轮次接在其后编号
+   */
+  constructor(pricing?: PriceTable, initial?: RunUsage) {
+    this.pricing = pricing;
+    this.turns = initial?.byTurn.map(turn => ({ ...turn })) ?? [];
+    this.turnOffset = this.turns[this.turns.length - 1]?.turn ?? 0;
+  }
+
+  /**
+   * 记录一次模型调用，返回该次调用的费用；同一轮内的多次调用（如输出验证重试）合并到同一轮
+   * model为带提供商前缀的名称时，resolvedModel为提供商实际使用的模型名称
+   */
+  record(agent: string, turn: number, model: string, usage: Usage, resolvedModel: string = model): number | undefined {
+    const price = this.pricing && (findModelPrice(this.pricing, model) ?? findModelPrice(this.pricing, resolvedModel));
+    const cost = price ? calculateCost(usage, price) : undefined;
+    turn += this.turnOffset;
+    const last = this.turns[this.turns.length - 1];
+    const entry = last && last.turn === turn && last.agent === agent && last.model === model
+      ? last
+      : { turn, agent, model, ...emptyTotals(this.pricing) };
+
+    addUsage(entry, usage, cost);
+    if (entry !== last) {
+      this.turns.push(entry);
+    }
+    return cost;
+  }
+
+  /**
+   * 当前的用量汇总
+   */
+  getUsage(): RunUsage {
+    const total: RunUsage = { ...emptyTotals(this.pricing), byAgent: {}, byModel: {}, byTurn: this.turns.map(turn => ({ ...turn })) };
+
+    for (const turn of this.turns) {
+      total.byAgent[turn.agent] ??= emptyTotals(this.pricing);
+      total.byModel[turn.model] ??= emptyTotals(this.pricing);
+      for (const totals of [total, total.byAgent[turn.agent], total.byModel[turn.model]]) {
+        mergeTotals(totals, turn);
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * 检查预算，返回第一个达到上限的项，均未达到时返回null
+   */
+  checkBudget(budget: UsageBudget): { limit: keyof UsageBudget; value: number; max: number } | null {
+    const usage = this.getUsage();
+    const values: Record<keyof UsageBudget, number> = {
+      maxTokens: usage.totalTokens,
+      maxPromptTokens: usage.promptTokens,
+      maxCompletionTokens: usage.completionTokens,
+      maxCost: usage.cost ?? 0
+    };
+
+    for (const limit of Object.keys(values) as Array<keyof UsageBudget>) {
+      const max = budget[limit];
+      if (max !== undefined && values[limit] >= max) {
+        return { limit, value: values[limit], max };
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * 空的用量汇总，配置了价格表时费用从0开始
+ */
+function emptyTotals(pricing?: PriceTable): UsageTotals {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    calls: 0,
+    cost: pricing ? 0 : undefined
+  };
+}
+
+/**
+ * 累加一次模型调用的用量
+ */
+function addUsage(totals: UsageTotals, usage: Usage, cost?: number): void {
+  totals.promptTokens += usage.prompt_tokens;
+  totals.completionTokens += usage.completion_tokens;
+  totals.totalTokens += usage.total_tokens;
+  totals.calls++;
+  if (totals.cost !== undefined && cost !== undefined) {
+    totals.cost += cost;
+  }
+}
+
+/**
+ * 合并两个用量汇总
+ */
+function mergeTotals(target: UsageTotals, source: UsageTotals): void {
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.totalTokens += source.totalTokens;
+  target.calls += source.calls;
+  if (target.cost !== undefined && source.cost !== undefined) {
+    target.cost += source.cost;
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * 个人敏感信息类型
+ */
+export type PIIType = 'email' | 'phone' | 'id_number' | 'credit_card';
+
+/**
+ * 检测到的敏感信息片段
+ */
+export interface DetectedSpan {
+  type: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 语言检测结果
+ */
+export type DetectedLanguage = 'zh' | 'en' | 'mixed' | 'unknown';
+
+/** 中日韩字符：假名、汉字（含扩展A和兼容汉字）、韩文音节 */
+const CJK_CHARS = '[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]';
+
+const ALL_PII_TYPES: PIIType[] = ['email', 'phone', 'id_number', 'credit_card'];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+
+const PHONE_PATTERNS = [
+  // 中国大陆手机号，可带 +86 前缀
+  /(?<![\d+])(?:\+?86[- ]?)?1[3-9]\d[- ]?\d{4}[- ]?\d{4}(?!\d)/g,
+  // 带国家代码的国际号码
+  /(?<![\d+])\+\d{1,3}[- ]?\(?\d{1,4}\)?(?:[- ]?\d{2,4}){2,4}(?!\d)/g,
+  // 北美格式 (555) 123-4567 / 555-123-4567
+  /(?<!\d)\(?\d{3}\)?[- .]\d{3}[- .]\d{4}(?!\d)/g
+];
+
+const ID_NUMBER_PATTERN = /(?<![\dA-Za-z])\d{17}[\dXx](?![\dA-Za-z])/g;
+
+/** 以空格或连字符分隔的数字串，其中可能包含信用卡号和相邻的其他数字 */
+const CARD_CANDIDATE_PATTERN = /(?<!\d)\d(?:[ -]?\d){12,}(?!\d)/g;
+
+/**
+ * 密钥与凭据的识别规则
+ */
+const SECRET_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'private_key', pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z]+ )?PRIVATE KEY-----/g },
+  { name: 'anthropic_api_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'openai_api_key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    name: 'generic_secret',
+    pattern: /\b(?:api[_-]?key|secret|token|password|passwd)\b["']?\s*[:=]\s*["']?[A-Za-z0-9_\-\/+=.]{12,}/gi
+  }
+];
+
+/**
+ * Luhn校验（信用卡号）
+ */
+export function isValidLuhn(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * 中国居民身份证号校验：出生日期和末位校验码
+ */
+export function isValidChineseId(id: string): boolean {
+  if (!/^\d{17}[\dXx]$/.test(id)) {
+    return false;
+  }
+
+  const year = Number(id.slice(6, 10));
+  const month = Number(id.slice(10, 12));
+  const day = Number(id.slice(12, 14));
+  const birth = new Date(Date.UTC(year, month - 1, day));
+  if (
+    year < 1900 ||
+    birth.getUTCFullYear() !== year ||
+    birth.getUTCMonth() !== month - 1 ||
+    birth.getUTCDate() !== day
+  ) {
+    return false;
+  }
+
+  const weights = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+  const checkCodes = '10X98765432';
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(id[i]), 0);
+  return checkCodes[sum % 11] === id[17].toUpperCase();
+}
+
+/**
+ * 收集正则的全部匹配
+ */
+function collect(text: string, pattern: RegExp, type: string, accept?: (value: string) => boolean): DetectedSpan[] {
+  const spans: DetectedSpan[] = [];
+  for (const match of text.matchAll(new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g'))) {
+    if (!accept || accept(match[0])) {
+      spans.push({ type, value: match[0], start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return spans;
+}
+
+/**
+ * 检测信用卡号：在每个候选数字串中，按分隔的数字组取13-19位的窗口做Luhn校验
+ * 卡号前后紧挨着其他数字组时，整个候选无法通过校验，但其中的卡号仍能被识别
+ */
+function detectCardNumbers(text: string): DetectedSpan[] {
+  const spans: DetectedSpan[] = [];
+
+  for (const match of text.matchAll(CARD_CANDIDATE_PATTERN)) {
+    const groups = [...match[0].matchAll(/\d+/g)].map(group => ({
+      digits: group[0],
+      start: match.index! + group.index!,
+      end: match.index! + group.index! + group[0].length
+    }));
+
+    let first = 0;
+    while (first < groups.length) {
+      let found = -1;
+      // 从当前数字组开始，优先尝试最长的窗口
+      for (let last = groups.length - 1; last >= first && found === -1; last--) {
+        const digits = groups.slice(first, last + 1).map(group => group.digits).join('');
+        if (digits.length >= 13 && digits.length <= 19 && isValidLuhn(digits)) {
+          found = last;
+        }
+      }
+
+      if (found === -1) {
+        first++;
+        continue;
+      }
+      const start = groups[first].start;
+      const end = groups[found].end;
+      spans.push({ type: 'credit_card', value: text.slice(start, end), start, end });
+      first = found + 1;
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * 按位置排序并去除重叠片段，先出现且更长的片段优先
+ */
+function dedupeSpans(spans: DetectedSpan[]): DetectedSpan[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const result: DetectedSpan[] = [];
+  for (const span of sorted) {
+    const last = result[result.length - 1];
+    if (!last || span.start >= last.end) {
+      result.push(span);
+    }
+  }
+  return result;
+}
+
+/**
+ * 用占位符替换片段
+ */
+function replaceSpans(text: string, spans: DetectedSpan[], placeholder: (span: DetectedSpan) => string): string {
+  let result = '';
+  let cursor = 0;
+  for (const span of spans) {
+    result += text.slice(cursor, span.start) + placeholder(span);
+    cursor = span.end;
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * 检测个人敏感信息：邮箱、电话号码、身份证号（校验码验证）、信用卡号（Luhn验证）
+ */
+export function detectPII(text: string, types: PIIType[] = ALL_PII_TYPES): DetectedSpan[] {
+  const spans: DetectedSpan[] = [];
+
+  // 身份证号和信用卡号先于电话号码收集，重叠时优先保留
+  if (types.includes('id_number')) {
+    spans.push(...collect(text, ID_NUMBER_PATTERN, 'id_number', isValidChineseId));
+  }
+  if (types.includes('credit_card')) {
+    spans.push(...detectCardNumbers(text));
+  }
+  if (types.includes('email')) {
+    spans.push(...collect(text, EMAIL_PATTERN, 'email'));
+  }
+  if (types.includes('phone')) {
+    const taken = [...spans];
+    for (const pattern of PHONE_PATTERNS) {
+      spans.push(
+        ...collect(text, pattern, 'phone').filter(
+          span => !taken.some(other => span.start < other.end && other.start < span.end)
+        )
+      );
+    }
+  }
+
+  return dedupeSpans(spans);
+}
+
+/**
+ * 脱敏个人敏感信息，替换为 [EMAIL]、[PHONE]、[ID_NUMBER]、[CREDIT_CARD]
+ */
+export function redactPII(text: string, types: PIIType[] = ALL_PII_TYPES): string {
+  return replaceSpans(text, detectPII(text, types), span => `[${span.type.toUpperCase()}]`);
+}
+
+/**
+ * 检测API密钥、令牌、私钥等凭据
+ */
+export function detectSecrets(text: string): DetectedSpan[] {
+  return dedupeSpans(SECRET_PATTERNS.flatMap(({ name, pattern }) => collect(text, pattern, name)));
+}
+
+/**
+ * 将检测到的凭据替换为 [SECRET]
+ */
+export function redactSecrets(text: string): string {
+  return replaceSpans(text, detectSecrets(text), () => '[SECRET]');
+}
+
+/**
+ * 中日韩字符在中日韩字符与拉丁单词总数中的占比
+ * 拉丁文按单词计数，中文里夹带的英文术语、API名称不会按字母数压低占比
+ */
+export function cjkRatio(text: string): number {
+  const cjk = (text.match(new RegExp(CJK_CHARS, 'g')) ?? []).length;
+  const latin = (text.match(/[A-Za-z]+/g) ?? []).length;
+  return cjk + latin === 0 ? 0 : cjk / (cjk + latin);
+}
+
+/**
+ * 粗略判断文本语言：中日韩字符占比不低于threshold为zh，不高于1-threshold为en，其余为mixed
+ */
+export function detectLanguage(text: string, threshold: number = 0.7): DetectedLanguage {
+  if (!new RegExp(`[A-Za-z]|${CJK_CHARS}`).test(text)) {
+    return 'unknown';
+  }
+
+  const ratio = cjkRatio(text);
+  if (ratio >= threshold) {
+    return 'zh';
+  }
+  if (ratio <= 1 - threshold) {
+    return 'en';
+  }
+  return 'mixed';
+}
+
+/**
+ * 从文本中提取JSON：支持纯JSON和 ```json 代码块
+ */
+export function extractJSON(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return { ok: true, value: JSON.parse(candidate) };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -1,4 +1,89 @@
-import { InputValidationRule, OutputValidationRule, SafetyCheckRule } from '../core/types';
+import {
+  InputValidationRule,
+  OutputValidationRule,
+  SafetyCheckRule,
+  SafetyCheckTarget,
+  SafetyViolation,
+  JSONSchema
+} from '../core/types';
+import { validateSchema } from '../core/schema';
+import { PIIType, detectLanguage, detectPII, detectSecrets, extractJSON, redactPII, redactSecrets } from './detectors';
+
+export * from './detectors';
+
+/**
+ * 守卫阻止了运行 - 输入验证、输出验证和安全检查错误的基类
+ */
+export class GuardrailViolationError extends Error {
+  /** 触发的守卫类型 */
+  guardrail: 'input_validation' | 'output_validation' | 'safety_check';
+  /** 未通过的规则名称 */
+  rules: string[];
+  /** 规则给出的错误信息 */
+  errors: string[];
+  /** 未通过验证的消息在传入消息列表中的索引 */
+  messageIndices: number[];
+
+  constructor(
+    message: string,
+    options: {
+      guardrail: GuardrailViolationError['guardrail'];
+      rules: string[];
+      errors: string[];
+      messageIndices?: number[];
+    }
+  ) {
+    super(message);
+    this.name = 'GuardrailViolationError';
+    this.guardrail = options.guardrail;
+    this.rules = options.rules;
+    this.errors = options.errors;
+    this.messageIndices = options.messageIndices ?? [];
+  }
+}
+
+/**
+ * 安全检查阻止了运行
+ */
+export class SafetyViolationError extends GuardrailViolationError {
+  /** 被阻止的检查对象 */
+  target: SafetyCheckTarget;
+  /** 本次检查的全部违规，包括导致阻止的规则 */
+  violations: SafetyViolation[];
+
+  constructor(target: SafetyCheckTarget, violations: SafetyViolation[], messageIndices?: number[]) {
+    const blocking = violations.filter(v => v.action !== 'log');
+    super(`安全检查未通过（${target}）: ${blocking.map(v => `${v.rule}: ${v.message}`).join('; ')}`, {
+      guardrail: 'safety_check',
+      rules: blocking.map(v => v.rule),
+      errors: blocking.map(v => v.message),
+      messageIndices
+    });
+    this.name = 'SafetyViolationError';
+    this.target = target;
+    this.violations = violations;
+  }
+}
+
+/**
+ * 输出验证失败且策略要求阻止
+ */
+export class OutputValidationError extends GuardrailViolationError {
+  agent: string;
+  /** 包括重试在内的验证次数 */
+  attempts: number;
+
+  constructor(agent: string, errors: string[], attempts: number, rules: string[] = []) {
+    super(`Agent ${agent} 的输出验证失败（共 ${attempts} 次）: ${errors.join(', ')}`, {
+      guardrail: 'output_validation',
+      rules,
+      errors
+    });
+    this.name = 'OutputValidationError';
+    this.agent = agent;
+    this.attempts = attempts;
+  }
+}
 
 /**
  * 输入验证器 - 验证用户输入是否符合规则
@@ -101,6 +186,58 @@ export class SafetyChecker {
       issues
     };
   }
+  
+  /**
+   * 按规则动作执行检查：modify规则改写内容后继续检查，block规则（及未提供modify的modify规则）阻止内容
+   */
+  async enforce(
+    content: string,
+    target: SafetyCheckTarget
+  ): Promise<{ content: string; blocked: boolean; violations: SafetyViolation[] }> {
+    const violations: SafetyViolation[] = [];
+    let blocked = false;
+    let current = content;
+    
+    for (const rule of this.rules) {
+      if (rule.appliesTo && !rule.appliesTo.includes(target)) {
+        continue;
+      }
+      
+      let passed: boolean;
+      try {
+        passed = await Promise.resolve(rule.checker(current));
+      } catch (error) {
+        console.error(`安全规则 ${rule.name} 执行错误:`, error);
+        passed = false;
+      }
+      
+      if (passed) {
+        continue;
+      }
+      
+      violations.push({
+        rule: rule.name,
+        severity: rule.severity,
+        action: rule.action,
+        message: rule.errorMessage
+      });
+      
+      if (rule.action === 'modify' && rule.modify) {
+        current = await Promise.resolve(rule.modify(current));
+      } else if (rule.action !== 'log') {
+        blocked = true;
+      }
+    }
+    
+    return { content: current, blocked, violations };
+  }
+}
+
+/**
+ * 将字符串模式编译为正则，默认忽略大小写
+ */
+function toRegExp(pattern: string | RegExp): RegExp {
+  return typeof pattern === 'string' ? new RegExp(pattern, 'i') : new RegExp(pattern.source, pattern.flags.replace('g', ''));
 }
 
 /**
@@ -139,6 +276,51 @@ export const BuiltInRules = {
       name: 'max_length',
       validator: (input) => input.length <= length,
       errorMessage: `输入内容不能超过 ${length} 个字符。`
+    }),
+    
+    /**
+     * 不包含个人敏感信息（邮箱、电话、身份证号、信用卡号）
+     */
+    noPII: (types?: PIIType[]): InputValidationRule => ({
+      name: 'no_pii',
+      validator: (input) => detectPII(input, types).length === 0,
+      errorMessage: '输入包含个人敏感信息，请移除后重试。'
+    }),
+    
+    /**
+     * 不包含API密钥、令牌等凭据
+     */
+    noSecrets: (): InputValidationRule => ({
+      name: 'no_secrets',
+      validator: (input) => detectSecrets(input).length === 0,
+      errorMessage: '输入包含API密钥或其他凭据，请移除后重试。'
+    }),
+    
+    /**
+     * 使用指定语言，不含文字的内容视为通过
+     */
+    language: (expected: 'zh' | 'en', threshold?: number): InputValidationRule => ({
+      name: 'language',
+      validator: (input) => ['unknown', expected].includes(detectLanguage(input, threshold)),
+      errorMessage: expected === 'zh' ? '请使用中文输入。' : 'Please write in English.'
+    }),
+    
+    /**
+     * 白名单：至少匹配一个模式
+     */
+    regexAllow: (patterns: Array<string | RegExp>): InputValidationRule => ({
+      name: 'regex_allow',
+      validator: (input) => patterns.some(pattern => toRegExp(pattern).test(input)),
+      errorMessage: '输入内容不在允许的范围内。'
+    }),
+    
+    /**
+     * 黑名单：不能匹配任何模式
+     */
+    regexDeny: (patterns: Array<string | RegExp>): InputValidationRule => ({
+      name: 'regex_deny',
+      validator: (input) => !patterns.some(pattern => toRegExp(pattern).test(input)),
+      errorMessage: '输入包含不允许的内容。'
     })
   },
   
@@ -188,6 +370,155 @@ export const BuiltInRules = {
         });
       },
       errorMessage: `输出必须包含所有必要的信息。`
+    }),
+    
+    /**
+     * 不包含个人敏感信息（邮箱、电话、身份证号、信用卡号）
+     */
+    noPII: (types?: PIIType[]): OutputValidationRule => ({
+      name: 'no_pii',
+      validator: (output) => detectPII(output, types).length === 0,
+      errorMessage: '输出不能包含个人敏感信息。'
+    }),
+    
+    /**
+     * 不包含API密钥、令牌等凭据
+     */
+    noSecrets: (): OutputValidationRule => ({
+      name: 'no_secrets',
+      validator: (output) => detectSecrets(output).length === 0,
+      errorMessage: '输出不能包含API密钥或其他凭据。'
+    }),
+    
+    /**
+     * 使用指定语言回复，不含文字的内容视为通过
+     */
+    language: (expected: 'zh' | 'en', threshold?: number): OutputValidationRule => ({
+      name: 'language',
+      validator: (output) => ['unknown', expected].includes(detectLanguage(output, threshold)),
+      errorMessage: expected === 'zh' ? '请使用中文回复。' : 'Please respond in English.'
+    }),
+    
+    /**
+     * 输出为合法JSON（允许 ```json 代码块），提供schema时还需符合schema
+     */
+    json: (schema?: JSONSchema): OutputValidationRule => ({
+      name: 'json',
+      validator: (output) => {
+        const parsed = extractJSON(output);
+        return parsed.ok && (!schema || validateSchema(schema, parsed.value).valid);
+      },
+      errorMessage: schema
+        ? `输出必须是符合以下结构的JSON: ${JSON.stringify(schema)}`
+        : '输出必须是合法的JSON。'
+    }),
+    
+    /**
+     * 白名单：至少匹配一个模式
+     */
+    regexAllow: (patterns: Array<string | RegExp>): OutputValidationRule => ({
+      name: 'regex_allow',
+      validator: (output) => patterns.some(pattern => toRegExp(pattern).test(output)),
+      errorMessage: '输出内容不在允许的范围内。'
+    }),
+    
+    /**
+     * 黑名单：不能匹配任何模式
+     */
+    regexDeny: (patterns: Array<string | RegExp>): OutputValidationRule => ({
+      name: 'regex_deny',
+      validator: (output) => !patterns.some(pattern => toRegExp(pattern).test(output)),
+      errorMessage: '输出包含不允许的内容。'
+    })
+  },
+  
+  /**
+   * 安全检查规则，可通过appliesTo限定检查对象
+   */
+  safety: {
+    /**
+     * 脱敏个人敏感信息
+     */
+    redactPII: (types?: PIIType[], appliesTo?: SafetyCheckTarget[]): SafetyCheckRule => ({
+      name: 'redact_pii',
+      checker: (content) => detectPII(content, types).length === 0,
+      severity: 'warning',
+      action: 'modify',
+      modify: (content) => redactPII(content, types),
+      errorMessage: '内容包含个人敏感信息，已脱敏。',
+      appliesTo
+    }),
+    
+    /**
+     * 阻止包含个人敏感信息的内容
+     */
+    blockPII: (types?: PIIType[], appliesTo?: SafetyCheckTarget[]): SafetyCheckRule => ({
+      name: 'block_pii',
+      checker: (content) => detectPII(content, types).length === 0,
+      severity: 'error',
+      action: 'block',
+      errorMessage: '内容包含个人敏感信息。',
+      appliesTo
+    }),
+    
+    /**
+     * 将API密钥、令牌等凭据替换为 [SECRET]
+     */
+    redactSecrets: (appliesTo?: SafetyCheckTarget[]): SafetyCheckRule => ({
+      name: 'redact_secrets',
+      checker: (content) => detectSecrets(content).length === 0,
+      severity: 'warning',
+      action: 'modify',
+      modify: redactSecrets,
+      errorMessage: '内容包含API密钥或其他凭据，已脱敏。',
+      appliesTo
+    }),
+    
+    /**
+     * 阻止包含API密钥、令牌等凭据的内容
+     */
+    blockSecrets: (appliesTo?: SafetyCheckTarget[]): SafetyCheckRule => ({
+      name: 'block_secrets',
+      checker: (content) => detectSecrets(content).length === 0,
+      severity: 'error',
+      action: 'block',
+      errorMessage: '内容包含API密钥或其他凭据。',
+      appliesTo
+    }),
+    
+    /**
+     * 语言不符时记录，不阻止
+     */
+    language: (expected: 'zh' | 'en', threshold?: number, appliesTo?: SafetyCheckTarget[]): SafetyCheckRule => ({
+      name: 'language',
+      checker: (content) => ['unknown', expected].includes(detectLanguage(content, threshold)),
+      severity: 'warning',
+      action: 'log',
+      errorMessage: `内容语言不是 ${expected}。`,
+      appliesTo
+    }),
+    
+    /**
+     * 黑名单：匹配任一模式时按action处理，modify时将匹配内容替换为 [REDACTED]
+     */
+    regexDeny: (
+      patterns: Array<string | RegExp>,
+      action: SafetyCheckRule['action'] = 'block',
+      appliesTo?: SafetyCheckTarget[]
+    ): SafetyCheckRule => ({
+      name: 'regex_deny',
+      checker: (content) => !patterns.some(pattern => toRegExp(pattern).test(content)),
+      severity: action === 'block' ? 'error' : 'warning',
+      action,
+      modify: (content) => patterns.reduce<string>(
+        (result, pattern) => {
+          const regex = toRegExp(pattern);
+          return result.replace(new RegExp(regex.source, regex.flags + 'g'), '[REDACTED]');
+        },
+        content
+      ),
+      errorMessage: '内容包含不允许的内容。',
+      appliesTo
     })
   }
 };
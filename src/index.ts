@@ -2,38 +2,162 @@
 export { Agent } from './core/agent';
 export { Swarm } from './core/swarm';
 export { Result } from './core/result';
+export { defineTool, isTool } from './core/tool';
+export { validateSchema } from './core/schema';
+export { AbortError } from './core/abort';
+export { UsageTracker, calculateCost, findModelPrice } from './core/usage';
 
 // 类型
 export type {
   Message,
   Response,
+  RunOptions,
+  StreamEvent,
+  StopReason,
+  PendingToolCall,
+  ToolDecision,
+  ApprovalRequirement,
+  RequestOptions,
+  ContextVariables,
   AgentConfig,
   GuardrailConfig,
+  OutputValidationPolicy,
   InputValidationRule,
   OutputValidationRule,
   SafetyCheckRule,
+  SafetyCheckTarget,
+  SafetyViolation,
+  ToolGuardrailConfig,
+  ToolPolicy,
+  ToolArgumentRule,
+  ToolResultRule,
   TraceEvent,
+  RunTrace,
+  TraceSink,
+  Span,
+  SpanKind,
+  SpanStatus,
+  SpanContext,
   ModelProvider,
   SwarmConfig,
-  HandoffCondition
+  HandoffCondition,
+  Tool,
+  ToolSchema,
+  JSONSchema,
+  FunctionType,
+  ToolCall,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionChunk,
+  Usage,
+  ModelPrice,
+  PriceTable,
+  UsageBudget,
+  UsageTotals,
+  TurnUsage,
+  RunUsage
 } from './core/types';
 
+// 模型提供商
+export {
+  createOpenAIProvider,
+  createOpenAICompatibleProvider,
+  createAnthropicProvider,
+  createOllamaProvider,
+  toAnthropicRequest,
+  fromAnthropicResponse,
+  toOllamaRequest,
+  fromOllamaResponse,
+  ProviderError,
+  ProviderRegistry,
+  TokenBucketRateLimiter,
+  isRetryableError,
+  getRetryDelay
+} from './providers';
+export type {
+  OpenAIProviderOptions,
+  OpenAICompatibleProviderOptions,
+  AnthropicProviderOptions,
+  OllamaProviderOptions,
+  HttpProviderOptions,
+  ProviderRoute,
+  ProviderRegistryOptions,
+  ResolvedProvider,
+  ProviderAttempt,
+  RetryPolicy,
+  RateLimiter,
+  RateLimitOptions
+} from './providers';
+
+// 配置
+export { resolveConfig, loadConfigFile, validateConfig, getOpenAI, ConfigError, DEFAULT_CONFIG_FILE } from './config';
+export type { ResolvedConfig, ConfigOptions } from './config';
+
 // 守卫
 export {
   InputValidator,
   OutputValidator,
   SafetyChecker,
-  BuiltInRules
+  GuardrailViolationError,
+  SafetyViolationError,
+  OutputValidationError,
+  BuiltInRules,
+  detectPII,
+  redactPII,
+  detectSecrets,
+  redactSecrets,
+  detectLanguage,
+  extractJSON,
+  isValidLuhn,
+  isValidChineseId
 } from './guardrails';
+export type { PIIType, DetectedSpan, DetectedLanguage } from './guardrails';
 
 // 追踪
 export {
   Tracer,
-  TraceVisualizer
+  TraceVisualizer,
+  OTLPTraceExporter,
+  FileTraceExporter,
+  toOTLPRequest,
+  toOTLPSpans,
+  toOTLPTraceId,
+  generateTraceReport
 } from './tracing';
+export type {
+  OTLPExportRequest,
+  OTLPSpan,
+  OTLPKeyValue,
+  OTLPAnyValue,
+  OTLPOptions,
+  OTLPExporterOptions,
+  FileTraceExporterOptions,
+  TraceReportOptions
+} from './tracing';
+
+// 测试
+export {
+  MockModelProvider,
+  SwarmTestHarness,
+  RunAssertions,
+  CassetteProvider,
+  CassetteMismatchError,
+  hashRequest,
+  normalizeRequest
+} from './testing';
+export type {
+  ScriptedTurn,
+  MockScript,
+  CassetteMode,
+  CassetteEntry,
+  CassetteFile,
+  CassetteProviderOptions
+} from './testing';
 
 // 导入Result以在Handoff类中使用
 import { Result } from './core/result';
+import type { Agent } from './core/agent';
+import type { HandoffCondition } from './core/types';
 
 // 导出一个用于创建握手函数的工具类
 export class Handoff {
@@ -41,7 +165,7 @@ export class Handoff {
    * 创建一个握手函数，用于转移到目标Agent
    */
   static createHandoffFunction(
-    targetAgent: any,
+    targetAgent: Agent,
     updateContextVariables?: Record<string, any>
   ) {
     return function handoff(currentContextVariables?: Record<string, any>) {
@@ -57,11 +181,7 @@ export class Handoff {
   /**
    * 创建一个条件握手函数，根据条件决定是否转移以及转移到哪个Agent
    */
-  static createConditionalHandoff(conditions: Array<{
-    condition: (contextVariables: Record<string, any>) => boolean;
-    targetAgent: any;
-    updateContextVariables?: Record<string, any>;
-  }>) {
+  static createConditionalHandoff(conditions: HandoffCondition[]) {
     return function conditionalHandoff(contextVariables: Record<string, any>) {
       for (const { condition, targetAgent, updateContextVariables } of conditions) {
         if (condition(contextVariables)) {
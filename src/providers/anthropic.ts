@@ -0,0 +1,355 @@
+import {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  Message,
+  ModelProvider,
+  RequestOptions,
+  ToolCall,
+  Usage
+} from '../core/types';
+import { HttpProviderOptions, ProviderError, joinURL, parseToolArguments, postJson, readSSE } from './base';
+
+/**
+ * Anthropic Messages风格提供商配置
+ */
+export interface AnthropicProviderOptions extends HttpProviderOptions {
+  /** API版本，对应 anthropic-version 请求头 */
+  version?: string;
+  /** 请求未指定max_tokens时使用的默认值（该协议要求必填） */
+  defaultMaxTokens?: number;
+}
+
+/**
+ * Anthropic Messages内容块
+ */
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+/**
+ * Anthropic Messages消息
+ */
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+/**
+ * 将统一请求转换为Anthropic Messages请求体
+ */
+export function toAnthropicRequest(
+  request: ChatCompletionRequest,
+  defaultMaxTokens: number = 4096
+): Record<string, any> {
+  const system = request.messages
+    .filter(m => m.role === 'system' && m.content)
+    .map(m => m.content)
+    .join('\n\n');
+
+  const body: Record<string, any> = {
+    model: request.model,
+    messages: toAnthropicMessages(request.messages),
+    max_tokens: request.max_tokens ?? defaultMaxTokens
+  };
+
+  if (system) {
+    body.system = system;
+  }
+
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters ?? { type: 'object', properties: {} }
+    }));
+
+    const toolChoice = toAnthropicToolChoice(request.tool_choice);
+    if (toolChoice || request.parallel_tool_calls === false) {
+      body.tool_choice = {
+        ...(toolChoice ?? { type: 'auto' }),
+        ...(request.parallel_tool_calls === false ? { disable_parallel_tool_use: true } : {})
+      };
+    }
+  }
+
+  return body;
+}
+
+/**
+ * 转换消息历史
+ * 系统消息单独提取；工具结果作为用户消息中的tool_result块；相邻同角色消息合并以满足交替要求
+ */
+function toAnthropicMessages(messages: Message[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+
+  const append = (role: AnthropicMessage['role'], blocks: AnthropicContentBlock[]) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        break;
+
+      case 'user':
+        append('user', message.content ? [{ type: 'text', text: message.content }] : []);
+        break;
+
+      case 'assistant': {
+        const blocks: AnthropicContentBlock[] = [];
+        if (message.content) {
+          blocks.push({ type: 'text', text: message.content });
+        }
+        for (const toolCall of message.tool_calls ?? []) {
+          blocks.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: parseToolArguments(toolCall.function.arguments)
+          });
+        }
+        append('assistant', blocks);
+        break;
+      }
+
+      case 'tool':
+      case 'function':
+        append('user', [{
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id ?? message.name ?? '',
+          content: message.content ?? ''
+        }]);
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 转换tool_choice
+ */
+function toAnthropicToolChoice(toolChoice: ChatCompletionRequest['tool_choice']): Record<string, any> | null {
+  if (!toolChoice) {
+    return null;
+  }
+  if (typeof toolChoice === 'string') {
+    switch (toolChoice) {
+      case 'auto':
+        return { type: 'auto' };
+      case 'required':
+        return { type: 'any' };
+      case 'none':
+        return { type: 'none' };
+      default:
+        return { type: 'tool', name: toolChoice };
+    }
+  }
+  if (toolChoice.function?.name) {
+    return { type: 'tool', name: toolChoice.function.name };
+  }
+  return null;
+}
+
+/**
+ * 将Anthropic Messages响应转换为统一格式
+ */
+export function fromAnthropicResponse(response: Record<string, any>): ChatCompletionResponse {
+  const blocks: any[] = response.content ?? [];
+  const text = blocks
+    .filter(block => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+  const toolCalls: ToolCall[] = blocks
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id,
+      type: 'function',
+      function: {
+        name: block.name,
+        arguments: JSON.stringify(block.input ?? {})
+      }
+    }));
+
+  return {
+    id: response.id,
+    model: response.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text || (toolCalls.length > 0 ? null : ''),
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+      },
+      finish_reason: toFinishReason(response.stop_reason)
+    }],
+    usage: toUsage(response.usage)
+  };
+}
+
+/**
+ * 创建Anthropic Messages风格的提供商
+ */
+export function createAnthropicProvider(options: AnthropicProviderOptions = {}): ModelProvider {
+  const id = options.id ?? 'anthropic';
+  const url = joinURL(options.baseURL ?? 'https://api.anthropic.com', 'v1/messages');
+  const defaultMaxTokens = options.defaultMaxTokens ?? 4096;
+  const headers: Record<string, string> = {
+    'anthropic-version': options.version ?? '2023-06-01',
+    ...(options.apiKey ? { 'x-api-key': options.apiKey } : {}),
+    ...options.headers
+  };
+
+  return {
+    id,
+    createChatCompletion: async (opts: ChatCompletionRequest, requestOptions: RequestOptions = {}): Promise<ChatCompletionResponse> => {
+      const response = await postJson(id, url, toAnthropicRequest(opts, defaultMaxTokens), {
+        headers,
+        timeout: options.timeout,
+        signal: requestOptions.signal
+      });
+      return fromAnthropicResponse(await response.json() as Record<string, any>);
+    },
+    createChatCompletionStream: async function* (opts: ChatCompletionRequest, requestOptions: RequestOptions = {}): AsyncGenerator<ChatCompletionChunk, void, unknown> {
+      const response = await postJson(
+        id,
+        url,
+        { ...toAnthropicRequest(opts, defaultMaxTokens), stream: true },
+        { headers, timeout: options.timeout, signal: requestOptions.signal }
+      );
+
+      // 内容块索引 -> 工具调用索引
+      const toolIndexes = new Map<number, number>();
+      let messageId: string | undefined;
+      let model: string | undefined;
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      for await (const { data } of readSSE(response)) {
+        const event = JSON.parse(data);
+
+        switch (event.type) {
+          case 'message_start':
+            messageId = event.message?.id;
+            model = event.message?.model;
+            inputTokens = event.message?.usage?.input_tokens ?? 0;
+            outputTokens = event.message?.usage?.output_tokens ?? 0;
+            break;
+
+          case 'content_block_start':
+            if (event.content_block?.type === 'tool_use') {
+              const toolIndex = toolIndexes.size;
+              toolIndexes.set(event.index, toolIndex);
+              yield {
+                id: messageId,
+                model,
+                choices: [{
+                  index: 0,
+                  delta: {
+                    tool_calls: [{
+                      index: toolIndex,
+                      id: event.content_block.id,
+                      type: 'function',
+                      function: { name: event.content_block.name, arguments: '' }
+                    }]
+                  }
+                }]
+              };
+            } else if (event.content_block?.type === 'text' && event.content_block.text) {
+              yield { id: messageId, model, choices: [{ index: 0, delta: { content: event.content_block.text } }] };
+            }
+            break;
+
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta') {
+              yield { id: messageId, model, choices: [{ index: 0, delta: { content: event.delta.text } }] };
+            } else if (event.delta?.type === 'input_json_delta' && toolIndexes.has(event.index)) {
+              yield {
+                id: messageId,
+                model,
+                choices: [{
+                  index: 0,
+                  delta: {
+                    tool_calls: [{
+                      index: toolIndexes.get(event.index)!,
+                      function: { arguments: event.delta.partial_json }
+                    }]
+                  }
+                }]
+              };
+            }
+            break;
+
+          case 'message_delta':
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+            if (event.delta?.stop_reason) {
+              yield {
+                id: messageId,
+                model,
+                choices: [{ index: 0, delta: {}, finish_reason: toFinishReason(event.delta.stop_reason) }]
+              };
+            }
+            break;
+
+          case 'message_stop':
+            yield {
+              id: messageId,
+              model,
+              choices: [],
+              usage: toUsage({ input_tokens: inputTokens, output_tokens: outputTokens })
+            };
+            return;
+
+          case 'error':
+            throw new ProviderError(
+              `${id} 流式响应错误: ${event.error?.message ?? data}`,
+              { provider: id, body: data }
+            );
+        }
+      }
+    }
+  };
+}
+
+/**
+ * 转换停止原因
+ */
+function toFinishReason(stopReason: string | null | undefined): string | null {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'max_tokens':
+      return 'length';
+    default:
+      return stopReason ?? null;
+  }
+}
+
+/**
+ * 转换用量统计
+ */
+function toUsage(usage: Record<string, any> | undefined): Usage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  const prompt = usage.input_tokens ?? 0;
+  const completion = usage.output_tokens ?? 0;
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: prompt + completion
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * 模型提供商错误 - 携带HTTP状态码和服务端建议的重试间隔
+ */
+export class ProviderError extends Error {
+  provider: string;
+  status?: number;
+  /** 服务端通过Retry-After建议的重试间隔（毫秒） */
+  retryAfter?: number;
+  body?: string;
+
+  constructor(
+    message: string,
+    options: { provider: string; status?: number; retryAfter?: number; body?: string }
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = options.provider;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    this.body = options.body;
+  }
+}
+
+/**
+ * 基于HTTP的提供商通用配置
+ */
+export interface HttpProviderOptions {
+  /** 提供商ID，用于追踪和错误信息 */
+  id?: string;
+  baseURL?: string;
+  apiKey?: string;
+  /** 附加的请求头 */
+  headers?: Record<string, string>;
+  /** 单次请求超时（毫秒） */
+  timeout?: number;
+}
+
+/**
+ * 拼接基础地址和路径
+ */
+export function joinURL(baseURL: string, path: string): string {
+  return `${baseURL.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * 解析Retry-After响应头，返回毫秒数
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * 解析工具调用参数字符串，无效JSON返回空对象
+ */
+export function parseToolArguments(args: string): any {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 发送JSON POST请求，非2xx响应转换为ProviderError
+ */
+export async function postJson(
+  provider: string,
+  url: string,
+  body: unknown,
+  options: { headers?: Record<string, string>; timeout?: number; signal?: AbortSignal } = {}
+): Promise<Response> {
+  let response: Response;
+  const signals = [
+    ...(options.timeout ? [AbortSignal.timeout(options.timeout)] : []),
+    ...(options.signal ? [options.signal] : [])
+  ];
+
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...options.headers
+      },
+      body: JSON.stringify(body),
+      signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0]
+    });
+  } catch (error) {
+    throw new ProviderError(
+      `${provider} 请求失败: ${error instanceof Error ? error.message : String(error)}`,
+      { provider }
+    );
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new ProviderError(
+      `${provider} 返回错误 ${response.status}: ${text.substring(0, 500)}`,
+      {
+        provider,
+        status: response.status,
+        retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+        body: text
+      }
+    );
+  }
+
+  return response;
+}
+
+/**
+ * 按行读取响应体
+ */
+async function* readLines(response: Response): AsyncGenerator<string, void, unknown> {
+  if (!response.body) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer.replace(/\r$/, '');
+  }
+}
+
+/**
+ * 解析服务端推送事件（SSE）流
+ */
+export async function* readSSE(response: Response): AsyncGenerator<{ event?: string; data: string }, void, unknown> {
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const line of readLines(response)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+      }
+      event = undefined;
+      data = [];
+    } else if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') };
+  }
+}
+
+/**
+ * 解析按行分隔的JSON（NDJSON）流
+ */
+export async function* readNDJSON<T = any>(response: Response): AsyncGenerator<T, void, unknown> {
+  for await (const line of readLines(response)) {
+    if (line.trim()) {
+      yield JSON.parse(line) as T;
+    }
+  }
+}
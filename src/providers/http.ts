@@ -0,0 +1,62 @@
+import { ChatCompletionChunk, ChatCompletionRequest, ChatCompletionResponse, ModelProvider, RequestOptions } from '../core/types';
+import { HttpProviderOptions, ProviderError, joinURL, postJson, readSSE } from './base';
+
+/**
+ * 通用OpenAI兼容HTTP提供商配置
+ */
+export interface OpenAICompatibleProviderOptions extends HttpProviderOptions {
+  baseURL: string;
+  /** 流式响应结束时是否请求用量统计，默认开启 */
+  includeUsage?: boolean;
+}
+
+/**
+ * 创建通用的OpenAI兼容HTTP提供商
+ * 适用于vLLM、llama.cpp server、LM Studio等实现了 /chat/completions 接口的服务
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleProviderOptions): ModelProvider {
+  const id = options.id ?? 'http';
+  const url = joinURL(options.baseURL, 'chat/completions');
+  const includeUsage = options.includeUsage ?? true;
+  const headers: Record<string, string> = {
+    ...(options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {}),
+    ...options.headers
+  };
+
+  return {
+    id,
+    createChatCompletion: async (opts: ChatCompletionRequest, requestOptions: RequestOptions = {}): Promise<ChatCompletionResponse> => {
+      const response = await postJson(id, url, { ...opts, stream: false }, {
+        headers,
+        timeout: options.timeout,
+        signal: requestOptions.signal
+      });
+      return await response.json() as ChatCompletionResponse;
+    },
+    createChatCompletionStream: async function* (opts: ChatCompletionRequest, requestOptions: RequestOptions = {}): AsyncGenerator<ChatCompletionChunk, void, unknown> {
+      const response = await postJson(
+        id,
+        url,
+        {
+          ...opts,
+          stream: true,
+          ...(includeUsage ? { stream_options: { include_usage: true, ...opts.stream_options } } : {})
+        },
+        { headers, timeout: options.timeout, signal: requestOptions.signal }
+      );
+
+      for await (const { data } of readSSE(response)) {
+        if (data === '[DONE]') {
+          return;
+        }
+
+        const chunk = JSON.parse(data);
+        if (chunk.error) {
+          throw new ProviderError(`${id} 流式响应错误: ${chunk.error.message ?? JSON.stringify(chunk.error)}`, { provider: id });
+        }
+
+        yield chunk as ChatCompletionChunk;
+      }
+    }
+  };
+}
@@ -0,0 +1,23 @@
+export { createOpenAIProvider } from './openai';
+export type { OpenAIProviderOptions } from './openai';
+export { createOpenAICompatibleProvider } from './http';
+export type { OpenAICompatibleProviderOptions } from './http';
+export { createAnthropicProvider, toAnthropicRequest, fromAnthropicResponse } from './anthropic';
+export type { AnthropicProviderOptions, AnthropicMessage, AnthropicContentBlock } from './anthropic';
+export { createOllamaProvider, toOllamaRequest, fromOllamaResponse } from './ollama';
+export type { OllamaProviderOptions } from './ollama';
+export { ProviderError } from './base';
+export type { HttpProviderOptions } from './base';
+export { ProviderRegistry } from './registry';
+export type {
+  ProviderRoute,
+  ProviderRegistryOptions,
+  ResolvedProvider,
+  ProviderFallbackHandler,
+  ProviderAttempt,
+  ProviderCallOptions
+} from './registry';
+export { isRetryableError, getRetryDelay, getRetryAfter, getErrorStatus, shouldRetry } from './retry';
+export type { RetryPolicy } from './retry';
+export { TokenBucketRateLimiter } from './rate-limit';
+export type { RateLimiter, RateLimitOptions } from './rate-limit';
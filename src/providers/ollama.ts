@@ -0,0 +1,207 @@
+import {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  Message,
+  ModelProvider,
+  RequestOptions,
+  ToolCall,
+  Usage
+} from '../core/types';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpProviderOptions, ProviderError, joinURL, parseToolArguments, postJson, readNDJSON } from './base';
+
+/**
+ * Ollama风格本地服务提供商配置
+ */
+export interface OllamaProviderOptions extends HttpProviderOptions {
+  /** 透传给服务端的模型参数（如 temperature、num_ctx） */
+  modelOptions?: Record<string, any>;
+  /** 模型常驻内存时长，如 "5m" */
+  keepAlive?: string;
+}
+
+/**
+ * 将统一请求转换为Ollama /api/chat 请求体
+ */
+export function toOllamaRequest(request: ChatCompletionRequest, options: OllamaProviderOptions = {}): Record<string, any> {
+  const body: Record<string, any> = {
+    model: request.model,
+    messages: request.messages.map(toOllamaMessage),
+    options: {
+      ...(request.max_tokens !== undefined ? { num_predict: request.max_tokens } : {}),
+      ...options.modelOptions
+    }
+  };
+
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools;
+  }
+
+  if (options.keepAlive) {
+    body.keep_alive = options.keepAlive;
+  }
+
+  return body;
+}
+
+/**
+ * 转换单条消息，工具调用参数使用对象而不是字符串
+ */
+function toOllamaMessage(message: Message): Record<string, any> {
+  const result: Record<string, any> = {
+    role: message.role === 'function' ? 'tool' : message.role,
+    content: message.content ?? ''
+  };
+
+  if (message.tool_calls && message.tool_calls.length > 0) {
+    result.tool_calls = message.tool_calls.map(toolCall => ({
+      function: {
+        name: toolCall.function.name,
+        arguments: parseToolArguments(toolCall.function.arguments)
+      }
+    }));
+  }
+
+  if ((message.role === 'tool' || message.role === 'function') && message.name) {
+    result.tool_name = message.name;
+  }
+
+  return result;
+}
+
+/**
+ * 转换服务端返回的工具调用，服务端不提供ID时随机生成，保证同一运行内各回合的ID不重复
+ */
+function fromOllamaToolCalls(toolCalls: any[] | undefined): ToolCall[] {
+  return (toolCalls ?? []).map(toolCall => ({
+    id: toolCall.id ?? `call_${uuidv4()}`,
+    type: 'function',
+    function: {
+      name: toolCall.function?.name ?? '',
+      arguments: typeof toolCall.function?.arguments === 'string'
+        ? toolCall.function.arguments
+        : JSON.stringify(toolCall.function?.arguments ?? {})
+    }
+  }));
+}
+
+/**
+ * 将Ollama /api/chat 响应转换为统一格式
+ */
+export function fromOllamaResponse(response: Record<string, any>): ChatCompletionResponse {
+  const toolCalls = fromOllamaToolCalls(response.message?.tool_calls);
+
+  return {
+    model: response.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: response.message?.content || (toolCalls.length > 0 ? null : ''),
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+      },
+      finish_reason: toolCalls.length > 0 ? 'tool_calls' : toFinishReason(response.done_reason)
+    }],
+    usage: toUsage(response)
+  };
+}
+
+/**
+ * 创建Ollama风格的本地服务提供商
+ * llama.cpp server 等提供OpenAI兼容接口的服务请使用 createOpenAICompatibleProvider
+ */
+export function createOllamaProvider(options: OllamaProviderOptions = {}): ModelProvider {
+  const id = options.id ?? 'ollama';
+  const url = joinURL(options.baseURL ?? 'http://localhost:11434', 'api/chat');
+  const headers: Record<string, string> = {
+    ...(options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {}),
+    ...options.headers
+  };
+
+  return {
+    id,
+    createChatCompletion: async (opts: ChatCompletionRequest, requestOptions: RequestOptions = {}): Promise<ChatCompletionResponse> => {
+      const response = await postJson(id, url, { ...toOllamaRequest(opts, options), stream: false }, {
+        headers,
+        timeout: options.timeout,
+        signal: requestOptions.signal
+      });
+      return fromOllamaResponse(await response.json() as Record<string, any>);
+    },
+    createChatCompletionStream: async function* (opts: ChatCompletionRequest, requestOptions: RequestOptions = {}): AsyncGenerator<ChatCompletionChunk, void, unknown> {
+      const response = await postJson(id, url, { ...toOllamaRequest(opts, options), stream: true }, {
+        headers,
+        timeout: options.timeout,
+        signal: requestOptions.signal
+      });
+
+      let toolCallCount = 0;
+
+      for await (const line of readNDJSON<Record<string, any>>(response)) {
+        if (line.error) {
+          throw new ProviderError(`${id} 流式响应错误: ${line.error}`, { provider: id });
+        }
+
+        const content: string | undefined = line.message?.content;
+        // 服务端一次性返回完整的工具调用，按增量格式转发
+        const toolCalls = fromOllamaToolCalls(line.message?.tool_calls);
+
+        if (content || toolCalls.length > 0) {
+          yield {
+            model: line.model,
+            choices: [{
+              index: 0,
+              delta: {
+                ...(content ? { content } : {}),
+                ...(toolCalls.length > 0
+                  ? { tool_calls: toolCalls.map((toolCall, index) => ({ index: toolCallCount + index, ...toolCall })) }
+                  : {})
+              }
+            }]
+          };
+          toolCallCount += toolCalls.length;
+        }
+
+        if (line.done) {
+          yield {
+            model: line.model,
+            choices: [{
+              index: 0,
+              delta: {},
+              finish_reason: toolCallCount > 0 ? 'tool_calls' : toFinishReason(line.done_reason)
+            }],
+            usage: toUsage(line)
+          };
+          return;
+        }
+      }
+    }
+  };
+}
+
+/**
+ * 转换停止原因
+ */
+function toFinishReason(doneReason: string | undefined): string | null {
+  if (!doneReason) {
+    return null;
+  }
+  return doneReason === 'length' ? 'length' : 'stop';
+}
+
+/**
+ * 转换用量统计
+ */
+function toUsage(response: Record<string, any>): Usage | undefined {
+  if (response.prompt_eval_count === undefined && response.eval_count === undefined) {
+    return undefined;
+  }
+  const prompt = response.prompt_eval_count ?? 0;
+  const completion = response.eval_count ?? 0;
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: prompt + completion
+  };
+}
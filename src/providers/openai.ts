@@ -0,0 +1,46 @@
+import { OpenAI } from 'openai';
+import type {
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionCreateParamsStreaming
+} from 'openai/resources/chat/completions';
+import { ChatCompletionChunk, ChatCompletionRequest, ChatCompletionResponse, ModelProvider, RequestOptions } from '../core/types';
+import { ConfigOptions, getOpenAI } from '../config';
+
+/**
+ * OpenAI提供商配置
+ */
+export interface OpenAIProviderOptions extends ConfigOptions {
+  /** 已创建的OpenAI客户端，优先于其余连接配置 */
+  client?: OpenAI;
+  /** 流式响应结束时是否请求用量统计，默认开启 */
+  includeUsage?: boolean;
+}
+
+/**
+ * 创建基于OpenAI SDK的模型提供商
+ * 流式调用使用真实的服务端推送（SSE），逐块返回内容和工具调用增量
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions = {}): ModelProvider {
+  const openai = options.client ?? getOpenAI(options);
+  const includeUsage = options.includeUsage ?? true;
+
+  return {
+    id: 'openai',
+    createChatCompletion: async (opts: ChatCompletionRequest, requestOptions: RequestOptions = {}): Promise<ChatCompletionResponse> => {
+      const params = { ...opts, stream: false } as ChatCompletionCreateParamsNonStreaming;
+      return await openai.chat.completions.create(params, { signal: requestOptions.signal }) as ChatCompletionResponse;
+    },
+    createChatCompletionStream: async function* (opts: ChatCompletionRequest, requestOptions: RequestOptions = {}): AsyncGenerator<ChatCompletionChunk, void, unknown> {
+      const params = {
+        ...opts,
+        stream: true,
+        ...(includeUsage ? { stream_options: { include_usage: true, ...opts.stream_options } } : {})
+      } as ChatCompletionCreateParamsStreaming;
+      const stream = await openai.chat.completions.create(params, { signal: requestOptions.signal });
+
+      for await (const chunk of stream) {
+        yield chunk as ChatCompletionChunk;
+      }
+    }
+  };
+}
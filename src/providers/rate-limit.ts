@@ -0,0 +1,80 @@
+import { sleep } from '../core/abort';
+
+/**
+ * 速率限制器配置
+ */
+export interface RateLimitOptions {
+  /** 每秒补充的请求配额 */
+  requestsPerSecond: number;
+  /** 桶容量，即允许的突发请求数，默认等于 requestsPerSecond（至少为 1） */
+  burst?: number;
+}
+
+/**
+ * 速率限制器 - 每次模型调用前获取一个配额
+ */
+export interface RateLimiter {
+  acquire(signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * 令牌桶速率限制器
+ * 同一实例可在多个并发运行之间共享，等待者按先来后到获得配额
+ */
+export class TokenBucketRateLimiter implements RateLimiter {
+  private capacity: number;
+  private refillRate: number;
+  private tokens: number;
+  private lastRefill: number;
+  /** 排队中的获取请求，保证先来先得 */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimitOptions) {
+    if (!(options.requestsPerSecond > 0)) {
+      throw new Error('requestsPerSecond 必须是正数');
+    }
+
+    this.refillRate = options.requestsPerSecond;
+    this.capacity = Math.max(1, options.burst ?? Math.floor(options.requestsPerSecond));
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * 当前可用的配额
+   */
+  get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * 获取一个配额，配额不足时等待补充
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    const result = this.queue.then(() => this.take(signal));
+    // 被取消的请求不阻塞后续排队者
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async take(signal?: AbortSignal): Promise<void> {
+    this.refill();
+
+    while (this.tokens < 1) {
+      await sleep(Math.ceil(((1 - this.tokens) / this.refillRate) * 1000), signal);
+      this.refill();
+    }
+
+    this.tokens -= 1;
+  }
+
+  /**
+   * 按经过的时间补充配额
+   */
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillRate);
+    this.lastRefill = now;
+  }
+}
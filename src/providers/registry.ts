@@ -0,0 +1,364 @@
+import { ChatCompletionChunk, ChatCompletionRequest, ChatCompletionResponse, ModelProvider, RequestOptions } from '../core/types';
+import { sleep } from '../core/abort';
+import { ProviderError } from './base';
+import { RateLimiter } from './rate-limit';
+import { getErrorStatus, getRetryDelay, RetryPolicy, shouldRetry } from './retry';
+
+/**
+ * 路由规则 - 将匹配的模型名称路由到指定提供商
+ */
+export interface ProviderRoute {
+  /** 字符串按前缀匹配，正则按test匹配，函数返回true即匹配 */
+  match: string | RegExp | ((model: string) => boolean);
+  provider: string;
+  /** 路由后替换使用的模型名称 */
+  model?: string;
+}
+
+/**
+ * 提供商注册表配置
+ */
+export interface ProviderRegistryOptions {
+  providers?: Record<string, ModelProvider>;
+  defaultProvider?: string;
+  routes?: ProviderRoute[];
+  /** 提供商出错或超时后依次尝试的备用提供商，可写作 "id" 或 "id:model" */
+  fallbacks?: Record<string, string[]>;
+  /** 单个提供商调用的超时（毫秒），流式调用指等待首个数据块的时间 */
+  timeout?: number;
+  /** 同一提供商调用失败后的重试策略，未设置时不重试 */
+  retry?: RetryPolicy;
+  /** 每次调用尝试前获取配额的速率限制器 */
+  rateLimiter?: RateLimiter;
+}
+
+/**
+ * 解析后的提供商
+ */
+export interface ResolvedProvider {
+  providerId: string;
+  provider: ModelProvider;
+  model: string;
+}
+
+/**
+ * 提供商切换回调
+ */
+export type ProviderFallbackHandler = (from: ResolvedProvider, to: ResolvedProvider, error: unknown) => void;
+
+/**
+ * 单次调用尝试的结果
+ */
+export interface ProviderAttempt {
+  provider: string;
+  model: string;
+  /** 在当前提供商上的第几次尝试，从1开始 */
+  attempt: number;
+  success: boolean;
+  /** 耗时（毫秒），流式调用指收到首个数据块的时间 */
+  duration: number;
+  error?: unknown;
+  /** 错误携带的HTTP状态码 */
+  status?: number;
+  /** 将要重试时，重试前的等待时间（毫秒） */
+  retryIn?: number;
+}
+
+/**
+ * 注册表调用选项
+ */
+export interface ProviderCallOptions extends RequestOptions {
+  /** 切换到备用提供商时回调 */
+  onFallback?: ProviderFallbackHandler;
+  /** 每次调用尝试结束时回调 */
+  onAttempt?: (attempt: ProviderAttempt) => void;
+}
+
+/**
+ * 提供商注册表 - 按模型名称将请求路由到不同的提供商，并在失败时切换到备用提供商
+ *
+ * 模型名称可带提供商前缀，如 "local:llama3" 或 "openai:gpt-4o"；
+ * 前缀未注册时整个字符串视为模型名称（如 "llama3:8b"）
+ */
+export class ProviderRegistry {
+  private providers: Map<string, ModelProvider> = new Map();
+  private routes: ProviderRoute[];
+  private fallbacks: Record<string, string[]>;
+  private timeout?: number;
+  private retry?: RetryPolicy;
+  private rateLimiter?: RateLimiter;
+  defaultProvider?: string;
+
+  constructor(options: ProviderRegistryOptions = {}) {
+    for (const [id, provider] of Object.entries(options.providers ?? {})) {
+      this.providers.set(id, provider);
+    }
+    this.defaultProvider = options.defaultProvider;
+    this.routes = options.routes ?? [];
+    this.fallbacks = options.fallbacks ?? {};
+    this.timeout = options.timeout;
+    this.retry = options.retry;
+    this.rateLimiter = options.rateLimiter;
+  }
+
+  /**
+   * 注册提供商
+   */
+  register(id: string, provider: ModelProvider): this {
+    this.providers.set(id, provider);
+    if (!this.defaultProvider) {
+      this.defaultProvider = id;
+    }
+    return this;
+  }
+
+  /**
+   * 添加路由规则
+   */
+  addRoute(route: ProviderRoute): this {
+    this.routes.push(route);
+    return this;
+  }
+
+  /**
+   * 设置备用提供商
+   */
+  setFallbacks(providerId: string, fallbacks: string[]): this {
+    this.fallbacks[providerId] = fallbacks;
+    return this;
+  }
+
+  /**
+   * 获取提供商
+   */
+  get(id: string): ModelProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * 是否已注册提供商
+   */
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * 根据模型名称解析提供商：显式前缀 > 路由规则 > 默认提供商
+   */
+  resolve(model: string): ResolvedProvider {
+    const separator = model.indexOf(':');
+    if (separator > 0) {
+      const prefix = model.slice(0, separator);
+      if (this.providers.has(prefix)) {
+        return this.toResolved(prefix, model.slice(separator + 1));
+      }
+    }
+
+    for (const route of this.routes) {
+      if (this.matches(route, model)) {
+        return this.toResolved(route.provider, route.model ?? model);
+      }
+    }
+
+    if (!this.defaultProvider) {
+      throw new Error(`模型 ${model} 没有可用的提供商`);
+    }
+    return this.toResolved(this.defaultProvider, model);
+  }
+
+  /**
+   * 获取包含备用提供商在内的调用链
+   */
+  resolveChain(model: string): ResolvedProvider[] {
+    const primary = this.resolve(model);
+    const chain = [primary];
+
+    for (const fallback of this.fallbacks[primary.providerId] ?? []) {
+      const separator = fallback.indexOf(':');
+      const providerId = separator > 0 ? fallback.slice(0, separator) : fallback;
+      const fallbackModel = separator > 0 ? fallback.slice(separator + 1) : primary.model;
+      chain.push(this.toResolved(providerId, fallbackModel));
+    }
+
+    return chain;
+  }
+
+  /**
+   * 调用聊天补全，按重试策略重试后依次尝试备用提供商；调用被取消时不再重试或切换
+   */
+  async createChatCompletion(
+    request: ChatCompletionRequest,
+    options: ProviderCallOptions = {}
+  ): Promise<ChatCompletionResponse & { provider: string }> {
+    const chain = this.resolveChain(request.model);
+    const { signal } = options;
+    let lastError: unknown;
+
+    for (let i = 0; i < chain.length; i++) {
+      const target = chain[i];
+      try {
+        const response = await this.withRetry(
+          target,
+          attemptSignal => target.provider.createChatCompletion({ ...request, model: target.model }, { signal: attemptSignal }),
+          options
+        );
+        return { ...response, provider: target.providerId };
+      } catch (error) {
+        lastError = error;
+        if (signal?.aborted) {
+          break;
+        }
+        if (i + 1 < chain.length) {
+          options.onFallback?.(target, chain[i + 1], error);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * 调用流式聊天补全
+   * 仅在收到首个数据块之前出错或超时才重试或切换到备用提供商，避免重复输出
+   */
+  async *createChatCompletionStream(
+    request: ChatCompletionRequest,
+    options: ProviderCallOptions = {}
+  ): AsyncGenerator<ChatCompletionChunk & { provider: string }, void, unknown> {
+    const chain = this.resolveChain(request.model);
+    const { signal } = options;
+
+    for (let i = 0; i < chain.length; i++) {
+      const target = chain[i];
+      let stream: AsyncGenerator<ChatCompletionChunk, void, unknown>;
+      let first: IteratorResult<ChatCompletionChunk, void>;
+
+      try {
+        ({ stream, first } = await this.withRetry(target, async attemptSignal => {
+          const attemptStream = target.provider.createChatCompletionStream({ ...request, model: target.model }, { signal: attemptSignal });
+          // 通知底层生成器释放连接，忽略清理时的错误
+          const close = () => {
+            attemptStream.return(undefined).catch(() => undefined);
+          };
+          // 在收到首个数据块之前超时或取消时关闭流
+          attemptSignal?.addEventListener('abort', close, { once: true });
+          try {
+            return { stream: attemptStream, first: await attemptStream.next() };
+          } catch (error) {
+            close();
+            throw error;
+          } finally {
+            attemptSignal?.removeEventListener('abort', close);
+          }
+        }, options));
+      } catch (error) {
+        if (i + 1 >= chain.length || signal?.aborted) {
+          throw error;
+        }
+        options.onFallback?.(target, chain[i + 1], error);
+        continue;
+      }
+
+      if (first.done) {
+        return;
+      }
+      yield { ...first.value, provider: target.providerId };
+
+      for await (const chunk of { [Symbol.asyncIterator]: () => stream }) {
+        yield { ...chunk, provider: target.providerId };
+      }
+      return;
+    }
+  }
+
+  /**
+   * 在同一提供商上按重试策略执行调用，每次尝试前获取速率限制配额
+   */
+  private async withRetry<T>(
+    target: ResolvedProvider,
+    call: (signal?: AbortSignal) => Promise<T>,
+    options: ProviderCallOptions
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await this.rateLimiter?.acquire(options.signal);
+      const startTime = Date.now();
+
+      try {
+        const result = await this.withTimeout(call, target.providerId, options.signal);
+        options.onAttempt?.({
+          provider: target.providerId,
+          model: target.model,
+          attempt,
+          success: true,
+          duration: Date.now() - startTime
+        });
+        return result;
+      } catch (error) {
+        const retry = !!this.retry && !options.signal?.aborted && shouldRetry(this.retry, error, attempt);
+        const retryIn = retry ? getRetryDelay(this.retry!, attempt, error) : undefined;
+
+        options.onAttempt?.({
+          provider: target.providerId,
+          model: target.model,
+          attempt,
+          success: false,
+          duration: Date.now() - startTime,
+          error,
+          status: getErrorStatus(error),
+          retryIn
+        });
+
+        if (!retry) {
+          throw error;
+        }
+        await sleep(retryIn!, options.signal);
+      }
+    }
+  }
+
+  /**
+   * 构造解析结果
+   */
+  private toResolved(providerId: string, model: string): ResolvedProvider {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new Error(`提供商 ${providerId} 未注册`);
+    }
+    return { providerId, provider, model };
+  }
+
+  /**
+   * 判断路由规则是否匹配
+   */
+  private matches(route: ProviderRoute, model: string): boolean {
+    if (typeof route.match === 'string') {
+      return model.startsWith(route.match);
+    }
+    if (route.match instanceof RegExp) {
+      return route.match.test(model);
+    }
+    return route.match(model);
+  }
+
+  /**
+   * 为提供商调用加上超时，超时后通过传给调用的信号取消仍在进行的请求
+   */
+  private withTimeout<T>(call: (signal?: AbortSignal) => Promise<T>, providerId: string, signal?: AbortSignal): Promise<T> {
+    if (!this.timeout) {
+      return call(signal);
+    }
+
+    const controller = new AbortController();
+    const attemptSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new ProviderError(`提供商 ${providerId} 调用超时（${this.timeout}ms）`, { provider: providerId });
+        controller.abort(error);
+        reject(error);
+      }, this.timeout);
+    });
+
+    return Promise.race([call(attemptSignal), timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,94 @@
+import { AbortError } from '../core/abort';
+import { parseRetryAfter } from './base';
+
+/**
+ * 模型调用的重试策略
+ */
+export interface RetryPolicy {
+  /** 包含首次调用在内的最大尝试次数，默认 3 */
+  maxAttempts?: number;
+  /** 首次重试前的等待时间（毫秒），默认 500 */
+  initialDelay?: number;
+  /** 单次等待的上限（毫秒），默认 30000；服务端要求的Retry-After超过该值时不再重试 */
+  maxDelay?: number;
+  /** 每次重试等待时间的增长倍数，默认 2 */
+  multiplier?: number;
+  /** 随机抖动比例（0-1），实际等待时间在 [delay * (1 - jitter), delay] 之间，默认 1 */
+  jitter?: number;
+  /** 是否遵循服务端返回的Retry-After，默认遵循 */
+  respectRetryAfter?: boolean;
+  /** 自定义可重试判断，默认重试网络错误、408、409、429和5xx */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * 获取错误携带的HTTP状态码
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * 获取错误携带的服务端建议重试间隔（毫秒）
+ * 兼容ProviderError.retryAfter和OpenAI SDK错误的响应头
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  const { retryAfter, headers } = (error ?? {}) as { retryAfter?: unknown; headers?: Record<string, string> };
+  if (typeof retryAfter === 'number') {
+    return retryAfter;
+  }
+  return parseRetryAfter(headers?.['retry-after']);
+}
+
+/**
+ * 默认的可重试判断：取消不重试，没有状态码的网络错误和 408、409、429、5xx 重试
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AbortError || (error as Error | null)?.name === 'AbortError') {
+    return false;
+  }
+
+  const status = getErrorStatus(error);
+  if (status === undefined) {
+    return true;
+  }
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * 判断失败的调用是否应重试
+ * 服务端要求的等待时间超过maxDelay时不重试，提前重试只会再次被拒绝
+ */
+export function shouldRetry(policy: RetryPolicy, error: unknown, attempt: number): boolean {
+  if (attempt >= (policy.maxAttempts ?? 3)) {
+    return false;
+  }
+  if (policy.respectRetryAfter ?? true) {
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== undefined && retryAfter > (policy.maxDelay ?? 30000)) {
+      return false;
+    }
+  }
+  return policy.retryOn ? policy.retryOn(error, attempt) : isRetryableError(error);
+}
+
+/**
+ * 计算第 attempt 次调用失败后的等待时间：指数退避加抖动，服务端给出Retry-After时以其为准
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, error?: unknown): number {
+  if (policy.respectRetryAfter ?? true) {
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== undefined) {
+      return retryAfter;
+    }
+  }
+
+  const initialDelay = policy.initialDelay ?? 500;
+  const maxDelay = policy.maxDelay ?? 30000;
+  const multiplier = policy.multiplier ?? 2;
+  const jitter = Math.min(1, Math.max(0, policy.jitter ?? 1));
+
+  const delay = Math.min(maxDelay, initialDelay * Math.pow(multiplier, attempt - 1));
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
@@ -0,0 +1,297 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ModelProvider,
+  RequestOptions
+} from '../core/types';
+
+/**
+ * 磁带模式
+ * - record: 总是调用真实提供商并写入磁带
+ * - replay: 只从磁带回放，未命中时报错
+ * - auto: 命中则回放，否则调用真实提供商并录制
+ */
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+/**
+ * 磁带中的一条请求/响应记录
+ */
+export interface CassetteEntry {
+  hash: string;
+  request: ChatCompletionRequest;
+  response?: ChatCompletionResponse;
+  chunks?: ChatCompletionChunk[];
+  error?: { message: string; status?: number };
+  recordedAt: string;
+}
+
+/**
+ * 磁带文件格式
+ */
+export interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+/**
+ * 磁带提供商配置
+ */
+export interface CassetteProviderOptions {
+  /** 磁带文件路径 */
+  path: string;
+  mode?: CassetteMode;
+  /** 录制时调用的真实提供商 */
+  provider?: ModelProvider;
+  id?: string;
+}
+
+/**
+ * 回放时未找到匹配请求
+ */
+export class CassetteMismatchError extends Error {
+  hash: string;
+  request: ChatCompletionRequest;
+  /** 与最接近的已录制请求相比存在差异的字段路径 */
+  differences: string[];
+
+  constructor(hash: string, request: ChatCompletionRequest, differences: string[]) {
+    super(
+      `磁带中没有匹配的请求 (hash: ${hash})` +
+      (differences.length > 0 ? `，与最接近的录制请求相比存在差异: ${differences.join(', ')}` : '')
+    );
+    this.name = 'CassetteMismatchError';
+    this.hash = hash;
+    this.request = request;
+    this.differences = differences;
+  }
+}
+
+/**
+ * 归一化请求：移除undefined字段并按键名排序，保证哈希稳定
+ */
+export function normalizeRequest(request: ChatCompletionRequest): ChatCompletionRequest {
+  return normalizeValue(request) as ChatCompletionRequest;
+}
+
+/**
+ * 计算请求的归一化哈希
+ */
+export function hashRequest(request: ChatCompletionRequest): string {
+  return createHash('sha256').update(JSON.stringify(normalizeRequest(request))).digest('hex');
+}
+
+/**
+ * 录制与回放提供商 - 将真实模型调用（含流式数据块）录制到磁带文件，之后确定性地回放
+ * 同一请求出现多次时按录制顺序依次回放
+ */
+export class CassetteProvider implements ModelProvider {
+  id: string;
+  mode: CassetteMode;
+  private filePath: string;
+  private provider?: ModelProvider;
+  private entries: CassetteEntry[] = [];
+  /** 每个哈希已回放的次数 */
+  private playCounts: Map<string, number> = new Map();
+
+  constructor(options: CassetteProviderOptions) {
+    this.id = options.id ?? 'cassette';
+    this.mode = options.mode ?? 'auto';
+    this.filePath = options.path;
+    this.provider = options.provider;
+
+    if (fs.existsSync(this.filePath)) {
+      const file = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as CassetteFile;
+      this.entries = file.entries ?? [];
+    } else if (this.mode === 'replay') {
+      throw new Error(`磁带文件不存在: ${this.filePath}`);
+    }
+
+    if (this.mode !== 'replay' && !this.provider) {
+      throw new Error(`${this.mode} 模式需要提供真实的模型提供商`);
+    }
+
+    // 录制模式从空磁带开始
+    if (this.mode === 'record') {
+      this.entries = [];
+    }
+  }
+
+  /**
+   * 已录制的记录
+   */
+  getEntries(): CassetteEntry[] {
+    return [...this.entries];
+  }
+
+  async createChatCompletion(request: ChatCompletionRequest, requestOptions?: RequestOptions): Promise<ChatCompletionResponse> {
+    const hash = hashRequest(request);
+    const entry = this.mode === 'record' ? undefined : this.findEntry(hash, request);
+
+    if (entry) {
+      return replayEntry(entry, () => entry.response!);
+    }
+
+    try {
+      const response = await this.provider!.createChatCompletion(request, requestOptions);
+      this.record({ hash, request: normalizeRequest(request), response, recordedAt: new Date().toISOString() });
+      return response;
+    } catch (error) {
+      this.recordError(hash, request, error);
+      throw error;
+    }
+  }
+
+  async *createChatCompletionStream(
+    request: ChatCompletionRequest,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<ChatCompletionChunk, void, unknown> {
+    const hash = hashRequest(request);
+    const entry = this.mode === 'record' ? undefined : this.findEntry(hash, request);
+
+    if (entry) {
+      const chunks = replayEntry(entry, () => entry.chunks ?? []);
+      for (const chunk of chunks) {
+        yield chunk;
+      }
+      return;
+    }
+
+    const chunks: ChatCompletionChunk[] = [];
+    try {
+      for await (const chunk of this.provider!.createChatCompletionStream(request, requestOptions)) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      this.record({ hash, request: normalizeRequest(request), chunks, recordedAt: new Date().toISOString() });
+    } catch (error) {
+      this.recordError(hash, request, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 将磁带写入文件
+   */
+  save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const file: CassetteFile = { version: 1, entries: this.entries };
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), 'utf8');
+  }
+
+  /**
+   * 查找匹配的记录，回放模式下未命中则报告差异
+   */
+  private findEntry(hash: string, request: ChatCompletionRequest): CassetteEntry | undefined {
+    const matches = this.entries.filter(entry => entry.hash === hash);
+    const played = this.playCounts.get(hash) ?? 0;
+
+    if (matches.length > 0) {
+      this.playCounts.set(hash, played + 1);
+      // 超出录制次数时重复使用最后一条记录
+      return matches[Math.min(played, matches.length - 1)];
+    }
+
+    if (this.mode === 'replay') {
+      throw new CassetteMismatchError(hash, request, this.closestDifferences(request));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 与最接近的已录制请求比较，列出差异字段
+   */
+  private closestDifferences(request: ChatCompletionRequest): string[] {
+    const normalized = normalizeRequest(request);
+    let best: string[] | null = null;
+
+    for (const entry of this.entries) {
+      const differences = diffPaths(entry.request, normalized);
+      if (!best || differences.length < best.length) {
+        best = differences;
+      }
+    }
+
+    return best ?? [];
+  }
+
+  /**
+   * 追加记录并保存
+   */
+  private record(entry: CassetteEntry): void {
+    this.entries.push(entry);
+    this.save();
+  }
+
+  /**
+   * 记录失败的调用，回放时重现同样的错误
+   */
+  private recordError(hash: string, request: ChatCompletionRequest, error: unknown): void {
+    this.record({
+      hash,
+      request: normalizeRequest(request),
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        status: (error as { status?: number })?.status
+      },
+      recordedAt: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * 回放记录，录制的是错误时重新抛出
+ */
+function replayEntry<T>(entry: CassetteEntry, getValue: () => T): T {
+  if (entry.error) {
+    const error = new Error(entry.error.message) as Error & { status?: number };
+    error.status = entry.error.status;
+    throw error;
+  }
+  return getValue();
+}
+
+/**
+ * 递归归一化值
+ */
+function normalizeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => (item === undefined ? null : normalizeValue(item)));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = (value as Record<string, unknown>)[key];
+      if (item !== undefined) {
+        result[key] = normalizeValue(item);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * 列出两个值之间存在差异的字段路径
+ */
+function diffPaths(a: unknown, b: unknown, prefix: string = ''): string[] {
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+    return JSON.stringify(a) === JSON.stringify(b) ? [] : [prefix || '$'];
+  }
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  const result: string[] = [];
+  for (const key of keys) {
+    const childPath = Array.isArray(a) ? `${prefix}[${key}]` : prefix ? `${prefix}.${key}` : key;
+    result.push(...diffPaths((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], childPath));
+  }
+  return result;
+}
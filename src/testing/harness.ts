@@ -0,0 +1,257 @@
+import { AssertionError, deepStrictEqual } from 'assert';
+import { Agent } from '../core/agent';
+import { Swarm } from '../core/swarm';
+import { ContextVariables, Message, Response, RunOptions, StopReason, StreamEvent, SwarmConfig, TraceEvent } from '../core/types';
+import { MockModelProvider, MockScript } from './mock';
+
+/**
+ * 脚本化对话测试工具 - 使用MockModelProvider离线运行Agent图并断言结果
+ */
+export class SwarmTestHarness {
+  provider: MockModelProvider;
+  swarm: Swarm;
+
+  constructor(script: MockScript, options: Omit<SwarmConfig, 'modelProvider'> = {}) {
+    this.provider = new MockModelProvider(script);
+    this.swarm = new Swarm({ ...options, modelProvider: this.provider });
+  }
+
+  /**
+   * 以非流式方式运行
+   */
+  async run<TContext extends ContextVariables = ContextVariables>(
+    agent: Agent,
+    messages: Message[],
+    options: RunOptions<TContext> = {}
+  ): Promise<RunAssertions<TContext>> {
+    const response = await this.swarm.run(agent, messages, options);
+    return new RunAssertions(response, [], this.provider);
+  }
+
+  /**
+   * 以流式方式运行，并收集全部流事件
+   */
+  async runStream<TContext extends ContextVariables = ContextVariables>(
+    agent: Agent,
+    messages: Message[],
+    options: RunOptions<TContext> = {}
+  ): Promise<RunAssertions<TContext>> {
+    const events: StreamEvent<TContext>[] = [];
+    let response: Response<TContext> | null = null;
+
+    for await (const event of this.swarm.runStream(agent, messages, options)) {
+      events.push(event);
+      if (event.type === 'complete') {
+        const { type, ...rest } = event;
+        response = rest;
+      }
+    }
+
+    if (!response) {
+      throw new AssertionError({ message: '流式运行未产生complete事件' });
+    }
+
+    return new RunAssertions(response, events, this.provider);
+  }
+}
+
+/**
+ * 运行结果断言，失败时抛出AssertionError，可与任意测试框架配合使用
+ */
+export class RunAssertions<TContext extends ContextVariables = ContextVariables> {
+  response: Response<TContext>;
+  /** 流式运行时收到的事件 */
+  events: StreamEvent<TContext>[];
+  provider: MockModelProvider;
+
+  constructor(response: Response<TContext>, events: StreamEvent<TContext>[], provider: MockModelProvider) {
+    this.response = response;
+    this.events = events;
+    this.provider = provider;
+  }
+
+  /**
+   * 最后一条消息
+   */
+  get lastMessage(): Message | undefined {
+    return this.response.messages[this.response.messages.length - 1];
+  }
+
+  /**
+   * 追踪事件
+   */
+  get trace(): TraceEvent[] {
+    return this.response.trace ?? [];
+  }
+
+  /**
+   * 断言最后一条助手消息的内容
+   */
+  expectFinalMessage(expected: string | RegExp): this {
+    const assistantMessages = this.response.messages.filter(m => m.role === 'assistant' && m.content);
+    const actual = assistantMessages[assistantMessages.length - 1]?.content ?? null;
+    const matched = typeof expected === 'string' ? actual === expected : actual !== null && expected.test(actual);
+
+    if (!matched) {
+      throw new AssertionError({
+        message: `最终助手消息不匹配`,
+        actual,
+        expected,
+        operator: 'expectFinalMessage'
+      });
+    }
+    return this;
+  }
+
+  /**
+   * 断言消息角色序列
+   */
+  expectMessageRoles(roles: Array<Message['role']>): this {
+    deepStrictEqual(this.response.messages.map(m => m.role), roles, '消息角色序列不匹配');
+    return this;
+  }
+
+  /**
+   * 断言工具被调用，可选断言参数
+   */
+  expectToolCalled(name: string, args?: Record<string, any>): this {
+    const calls = this.response.messages
+      .flatMap(m => m.tool_calls ?? [])
+      .filter(call => call.function.name === name);
+
+    if (calls.length === 0) {
+      throw new AssertionError({ message: `工具 ${name} 未被调用`, operator: 'expectToolCalled' });
+    }
+
+    if (args) {
+      const matched = calls.some(call => {
+        try {
+          deepStrictEqual(JSON.parse(call.function.arguments || '{}'), args);
+          return true;
+        } catch {
+          return false;
+        }
+      });
+      if (!matched) {
+        throw new AssertionError({
+          message: `工具 ${name} 的调用参数不匹配`,
+          actual: calls.map(call => call.function.arguments),
+          expected: args,
+          operator: 'expectToolCalled'
+        });
+      }
+    }
+    return this;
+  }
+
+  /**
+   * 断言工具未被调用
+   */
+  expectToolNotCalled(name: string): this {
+    const called = this.response.messages.some(m => (m.tool_calls ?? []).some(call => call.function.name === name));
+    if (called) {
+      throw new AssertionError({ message: `工具 ${name} 不应被调用`, operator: 'expectToolNotCalled' });
+    }
+    return this;
+  }
+
+  /**
+   * 断言按顺序发生的Agent切换
+   */
+  expectHandoffs(agentNames: string[]): this {
+    const handoffs = this.trace.filter(e => e.type === 'handoff').map(e => e.data.to);
+    deepStrictEqual(handoffs, agentNames, 'Agent切换序列不匹配');
+    return this;
+  }
+
+  /**
+   * 断言最终的Agent
+   */
+  expectAgent(name: string): this {
+    if (this.response.agent.name !== name) {
+      throw new AssertionError({
+        message: '最终Agent不匹配',
+        actual: this.response.agent.name,
+        expected: name,
+        operator: 'expectAgent'
+      });
+    }
+    return this;
+  }
+
+  /**
+   * 断言运行结束的原因
+   */
+  expectStopReason(expected: StopReason): this {
+    if (this.response.stopReason !== expected) {
+      throw new AssertionError({
+        message: `运行结束原因不匹配${this.response.error ? `（错误: ${this.response.error.message}）` : ''}`,
+        actual: this.response.stopReason,
+        expected,
+        operator: 'expectStopReason'
+      });
+    }
+    return this;
+  }
+
+  /**
+   * 断言上下文变量包含指定的键值
+   */
+  expectContext(expected: Partial<TContext>): this {
+    for (const [key, value] of Object.entries(expected)) {
+      deepStrictEqual(this.response.context_variables[key as keyof TContext], value, `上下文变量 ${key} 不匹配`);
+    }
+    return this;
+  }
+
+  /**
+   * 断言存在满足条件的追踪事件
+   */
+  expectTraceEvent(type: TraceEvent['type'], predicate?: (data: any) => boolean): this {
+    const found = this.trace.some(e => e.type === type && (!predicate || predicate(e.data)));
+    if (!found) {
+      throw new AssertionError({ message: `未找到满足条件的 ${type} 追踪事件`, operator: 'expectTraceEvent' });
+    }
+    return this;
+  }
+
+  /**
+   * 断言不存在指定类型的追踪事件
+   */
+  expectNoTraceEvent(type: TraceEvent['type'], predicate?: (data: any) => boolean): this {
+    const found = this.trace.some(e => e.type === type && (!predicate || predicate(e.data)));
+    if (found) {
+      throw new AssertionError({ message: `不应出现 ${type} 追踪事件`, operator: 'expectNoTraceEvent' });
+    }
+    return this;
+  }
+
+  /**
+   * 断言流式运行产生了指定类型的事件
+   */
+  expectStreamEvent<TType extends StreamEvent['type']>(
+    type: TType,
+    predicate?: (event: Extract<StreamEvent<TContext>, { type: TType }>) => boolean
+  ): this {
+    const found = this.events.some(
+      e => e.type === type && (!predicate || predicate(e as Extract<StreamEvent<TContext>, { type: TType }>))
+    );
+    if (!found) {
+      throw new AssertionError({ message: `未找到满足条件的 ${type} 流事件`, operator: 'expectStreamEvent' });
+    }
+    return this;
+  }
+
+  /**
+   * 断言脚本回合已全部消费
+   */
+  expectScriptConsumed(): this {
+    if (this.provider.remaining !== 0 && this.provider.remaining !== Infinity) {
+      throw new AssertionError({
+        message: `脚本还剩 ${this.provider.remaining} 个回合未使用`,
+        operator: 'expectScriptConsumed'
+      });
+    }
+    return this;
+  }
+}
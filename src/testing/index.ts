@@ -0,0 +1,5 @@
+export { MockModelProvider } from './mock';
+export type { ScriptedTurn, MockScript } from './mock';
+export { SwarmTestHarness, RunAssertions } from './harness';
+export { CassetteProvider, CassetteMismatchError, hashRequest, normalizeRequest } from './cassette';
+export type { CassetteMode, CassetteEntry, CassetteFile, CassetteProviderOptions } from './cassette';
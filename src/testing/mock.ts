@@ -0,0 +1,217 @@
+import {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ModelProvider,
+  RequestOptions,
+  ToolCall,
+  Usage
+} from '../core/types';
+
+/**
+ * 脚本化的助手回合
+ */
+export interface ScriptedTurn {
+  content?: string | null;
+  tool_calls?: Array<{
+    id?: string;
+    name: string;
+    arguments?: Record<string, any> | string;
+  }>;
+  /** 流式模式下依次返回的内容片段，默认整段返回 */
+  chunks?: string[];
+  /** 模拟调用失败 */
+  error?: Error | string;
+  /** 模拟响应延迟（毫秒），期间响应取消信号 */
+  delay?: number;
+  usage?: Usage;
+  /** 校验本回合收到的请求，抛出异常即视为失败 */
+  expectRequest?: (request: ChatCompletionRequest) => void;
+}
+
+/**
+ * 脚本来源：固定回合列表，或根据请求动态生成回合的函数
+ */
+export type MockScript = ScriptedTurn[] | ((request: ChatCompletionRequest, index: number) => ScriptedTurn);
+
+/**
+ * 确定性的模拟模型提供商 - 按脚本依次返回助手回合，无需真实的模型服务
+ */
+export class MockModelProvider implements ModelProvider {
+  id: string;
+  /** 收到的全部请求，便于断言 */
+  requests: ChatCompletionRequest[] = [];
+  private script: MockScript;
+  private cursor: number = 0;
+
+  constructor(script: MockScript, options: { id?: string } = {}) {
+    this.script = script;
+    this.id = options.id ?? 'mock';
+  }
+
+  /**
+   * 剩余未使用的脚本回合数
+   */
+  get remaining(): number {
+    return Array.isArray(this.script) ? this.script.length - this.cursor : Infinity;
+  }
+
+  /**
+   * 重置脚本和请求记录
+   */
+  reset(script?: MockScript): void {
+    if (script) {
+      this.script = script;
+    }
+    this.cursor = 0;
+    this.requests = [];
+  }
+
+  /**
+   * 返回下一个脚本回合
+   */
+  async createChatCompletion(request: ChatCompletionRequest, requestOptions: RequestOptions = {}): Promise<ChatCompletionResponse> {
+    const turn = this.nextTurn(request);
+    await this.wait(turn, requestOptions.signal);
+    const toolCalls = this.toToolCalls(turn);
+
+    return {
+      id: `mock-${this.cursor}`,
+      model: request.model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: turn.content ?? (toolCalls.length > 0 ? null : ''),
+          tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+        },
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop'
+      }],
+      usage: turn.usage
+    };
+  }
+
+  /**
+   * 以流式增量返回下一个脚本回合
+   */
+  async *createChatCompletionStream(
+    request: ChatCompletionRequest,
+    requestOptions: RequestOptions = {}
+  ): AsyncGenerator<ChatCompletionChunk, void, unknown> {
+    const turn = this.nextTurn(request);
+    await this.wait(turn, requestOptions.signal);
+    const toolCalls = this.toToolCalls(turn);
+    const id = `mock-${this.cursor}`;
+
+    const chunks = turn.chunks ?? (turn.content ? [turn.content] : []);
+    for (const content of chunks) {
+      yield { id, model: request.model, choices: [{ index: 0, delta: { content } }] };
+    }
+
+    // 工具调用参数分两段发送，覆盖增量拼接逻辑
+    for (let index = 0; index < toolCalls.length; index++) {
+      const toolCall = toolCalls[index];
+      const args = toolCall.function.arguments;
+      const middle = Math.ceil(args.length / 2);
+
+      yield {
+        id,
+        model: request.model,
+        choices: [{
+          index: 0,
+          delta: {
+            tool_calls: [{
+              index,
+              id: toolCall.id,
+              type: 'function',
+              function: { name: toolCall.function.name, arguments: args.slice(0, middle) }
+            }]
+          }
+        }]
+      };
+      yield {
+        id,
+        model: request.model,
+        choices: [{ index: 0, delta: { tool_calls: [{ index, function: { arguments: args.slice(middle) } }] } }]
+      };
+    }
+
+    yield {
+      id,
+      model: request.model,
+      choices: [{ index: 0, delta: {}, finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop' }]
+    };
+
+    if (turn.usage) {
+      yield { id, model: request.model, choices: [], usage: turn.usage };
+    }
+  }
+
+  /**
+   * 取出下一个脚本回合
+   */
+  private nextTurn(request: ChatCompletionRequest): ScriptedTurn {
+    const index = this.cursor++;
+    this.requests.push(request);
+
+    let turn: ScriptedTurn | undefined;
+    if (Array.isArray(this.script)) {
+      turn = this.script[index];
+      if (!turn) {
+        throw new Error(`MockModelProvider 脚本已耗尽：第 ${index + 1} 次调用没有对应的回合`);
+      }
+    } else {
+      turn = this.script(request, index);
+    }
+
+    turn.expectRequest?.(request);
+
+    if (turn.error) {
+      throw typeof turn.error === 'string' ? new Error(turn.error) : turn.error;
+    }
+
+    return turn;
+  }
+
+  /**
+   * 按回合配置的延迟等待，取消信号触发时立即失败
+   */
+  private wait(turn: ScriptedTurn, signal?: AbortSignal): Promise<void> {
+    if (!turn.delay) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason ?? new Error('请求已取消'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, turn.delay);
+
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
+  /**
+   * 将脚本中的工具调用转换为API格式
+   */
+  private toToolCalls(turn: ScriptedTurn): ToolCall[] {
+    return (turn.tool_calls ?? []).map((toolCall, index) => ({
+      id: toolCall.id ?? `call_${this.cursor}_${index}`,
+      type: 'function',
+      function: {
+        name: toolCall.name,
+        arguments: typeof toolCall.arguments === 'string'
+          ? toolCall.arguments
+          : JSON.stringify(toolCall.arguments ?? {})
+      }
+    }));
+  }
+}
@@ -1,14 +1,27 @@
-import { TraceEvent } from '../core/types';
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { RunTrace, Span, SpanContext, SpanKind, SpanStatus, TraceEvent } from '../core/types';
+import { escapeHTML, generateTraceReport, TraceReportOptions } from './report';
 
 /**
- * 追踪器类 - 用于记录Agent运行过程
+ * 追踪器类 - 用于记录Agent运行过程，Swarm为每次运行创建一个
+ * startSpan返回作用于新跨度的子追踪器，与父追踪器共享事件和跨度，子追踪器记录的事件归属于该跨度
  */
 export class Tracer {
   events: TraceEvent[] = [];
+  spans: Span[] = [];
   enabled: boolean = true;
+  /** 运行ID，写入每个事件 */
+  runId: string;
+  /** 顶层运行的ID，子运行沿用父运行的traceId */
+  traceId: string;
+  /** 当前作用域的跨度，新事件和子跨度归属于它 */
+  span: Span | null = null;
   
-  constructor(enabled: boolean = true) {
+  constructor(enabled: boolean = true, runId: string = uuidv4(), traceId: string = runId) {
     this.enabled = enabled;
+    this.runId = runId;
+    this.traceId = traceId;
   }
   
   /**
@@ -20,15 +33,70 @@ export class Tracer {
     this.events.push({
       timestamp: Date.now(),
       type,
-      data
+      data,
+      runId: this.runId,
+      spanId: this.span?.id
     });
   }
   
   /**
-   * 清除所有事件
+   * 开始子跨度，返回作用于该跨度的追踪器
+   * parentId默认为当前跨度，传入null或其他ID可挂到别处（如父运行的工具调用）
+   */
+  startSpan(kind: SpanKind, name: string, attributes: Record<string, any> = {}, parentId?: string | null): Tracer {
+    const span: Span = {
+      id: randomBytes(8).toString('hex'),
+      parentId: parentId !== undefined ? parentId : this.span?.id ?? null,
+      runId: this.runId,
+      kind,
+      name,
+      startTime: Date.now(),
+      status: 'unset',
+      attributes: { ...attributes }
+    };
+    
+    if (this.enabled) {
+      this.spans.push(span);
+    }
+    
+    const child = new Tracer(this.enabled, this.runId, this.traceId);
+    child.events = this.events;
+    child.spans = this.spans;
+    child.span = span;
+    return child;
+  }
+  
+  /**
+   * 结束当前跨度，已结束的跨度不会被重复结束
+   */
+  endSpan(status: SpanStatus = 'ok', attributes: Record<string, any> = {}, error?: unknown): void {
+    if (this.span) {
+      finishSpan(this.span, status, attributes, error);
+    }
+  }
+  
+  /**
+   * 结束全部尚未结束的跨度，用于运行异常退出时的收尾
+   */
+  endOpenSpans(status: SpanStatus = 'unset', error?: unknown): void {
+    for (const span of this.spans) {
+      finishSpan(span, status, {}, error);
+    }
+  }
+  
+  /**
+   * 当前跨度的引用
+   */
+  getSpanContext(): SpanContext | undefined {
+    return this.span ? { runId: this.runId, spanId: this.span.id, traceId: this.traceId } : undefined;
+  }
+  
+  /**
+   * 清除所有事件和跨度
    */
   clear(): void {
-    this.events = [];
+    this.events.length = 0;
+    this.spans.length = 0;
   }
   
   /**
@@ -38,6 +106,13 @@ export class Tracer {
     return [...this.events];
   }
   
+  /**
+   * 获取所有跨度
+   */
+  getSpans(): Span[] {
+    return this.spans.map(span => ({ ...span, attributes: { ...span.attributes } }));
+  }
+  
   /**
    * 导出事件为JSON字符串
    */
@@ -46,6 +121,23 @@ export class Tracer {
   }
 }
 
+/**
+ * 结束跨度并记录持续时间
+ */
+function finishSpan(span: Span, status: SpanStatus, attributes: Record<string, any>, error?: unknown): void {
+  if (span.endTime !== undefined) {
+    return;
+  }
+  
+  span.endTime = Date.now();
+  span.duration = span.endTime - span.startTime;
+  span.status = status;
+  Object.assign(span.attributes, attributes);
+  if (error !== undefined) {
+    span.error = error instanceof Error ? error.message : String(error);
+  }
+}
+
 /**
  * 追踪可视化类 - 将追踪事件可视化
  */
@@ -72,13 +164,15 @@ export class TraceVisualizer {
           lines.push(`[${time}] 📞 Function "${event.data.name}" called with args: ${JSON.stringify(event.data.arguments)}`);
           break;
           
-        case 'function_return':
+        case 'function_return': {
+          const duration = event.data.duration !== undefined ? ` (${event.data.duration}ms)` : '';
           if (event.data.error) {
-            lines.push(`[${time}] ❌ Function "${event.data.name}" failed: ${event.data.error}`);
+            lines.push(`[${time}] ❌ Function "${event.data.name}" failed${duration}: ${event.data.error}`);
           } else {
-            lines.push(`[${time}] ✅ Function "${event.data.name}" returned: ${JSON.stringify(event.data.result).substring(0, 100)}${JSON.stringify(event.data.result).length > 100 ? '...' : ''}`);
+            lines.push(`[${time}] ✅ Function "${event.data.name}" returned${duration}: ${JSON.stringify(event.data.result).substring(0, 100)}${JSON.stringify(event.data.result).length > 100 ? '...' : ''}`);
           }
           break;
+        }
           
         case 'handoff':
           lines.push(`[${time}] 🔄 Handoff from "${event.data.from}" to "${event.data.to}"`);
@@ -88,12 +182,42 @@ export class TraceVisualizer {
           if (event.data.success) {
             lines.push(`[${time}] 🛡️ ${event.data.type} passed`);
           } else {
-            lines.push(`[${time}] 🚫 ${event.data.type} failed: ${event.data.errors.join(', ')}`);
+            const rule = event.data.rule ? ` [${event.data.rule}, ${event.data.severity}, ${event.data.action}]` : '';
+            const subject = event.data.target ?? event.data.tool;
+            lines.push(`[${time}] 🚫 ${event.data.type}${subject ? ` (${subject})` : ''} failed${rule}: ${event.data.errors.join(', ')}`);
           }
           break;
           
-        case 'model_call':
-          lines.push(`[${time}] 🤖 Model "${event.data.model}" called`);
+        case 'model_call': {
+          const usage = event.data.usage
+            ? ` (${event.data.usage.prompt_tokens} in / ${event.data.usage.completion_tokens} out tokens${event.data.cost !== undefined ? `, $${event.data.cost.toFixed(6)}` : ''})`
+            : '';
+          lines.push(`[${time}] 🤖 Model "${event.data.model}" called${event.data.provider ? ` via "${event.data.provider}"` : ''}${usage}`);
+          break;
+        }
+          
+        case 'provider_fallback':
+          lines.push(`[${time}] 🔀 Provider "${event.data.from}" failed, falling back to "${event.data.to}": ${event.data.error}`);
+          break;
+          
+        case 'model_attempt':
+          if (!event.data.success) {
+            lines.push(`[${time}] ⚠️ Attempt ${event.data.attempt} on "${event.data.provider}" failed${event.data.status ? ` (${event.data.status})` : ''}: ${event.data.error}${event.data.retryIn !== undefined ? `, retrying in ${event.data.retryIn}ms` : ''}`);
+          } else if (event.data.attempt > 1) {
+            lines.push(`[${time}] ✅ Attempt ${event.data.attempt} on "${event.data.provider}" succeeded`);
+          }
+          break;
+          
+        case 'aborted':
+          lines.push(`[${time}] ⏹️ Run aborted in agent "${event.data.agent}" after ${event.data.turns} turns: ${event.data.reason}`);
+          break;
+          
+        case 'budget_exceeded':
+          lines.push(`[${time}] 💰 Budget ${event.data.limit} exceeded in agent "${event.data.agent}" after ${event.data.turns} turns: ${event.data.value} >= ${event.data.max}`);
+          break;
+          
+        case 'tool_approval':
+          lines.push(`[${time}] 🙋 Tool call ${event.data.tool} (${event.data.tool_call_id}) ${event.data.decision === 'approve' ? 'approved' : event.data.decision === 'edit' ? `approved with edited arguments ${JSON.stringify(event.data.arguments)}` : `rejected${event.data.reason ? `: ${event.data.reason}` : ''}`}`);
           break;
           
         default:
@@ -104,6 +228,40 @@ export class TraceVisualizer {
     return lines.join('\n');
   }
   
+  /**
+   * 生成跨度树的控制台视图，按父子关系缩进并显示耗时和状态
+   */
+  static generateSpanTree(spans: Span[]): string {
+    const ids = new Set(spans.map(span => span.id));
+    const children = new Map<string | null, Span[]>();
+    for (const span of spans) {
+      // 父跨度不在列表中（如子运行挂在父运行的工具调用下）时作为根显示
+      const parentId = span.parentId !== null && ids.has(span.parentId) ? span.parentId : null;
+      children.set(parentId, [...(children.get(parentId) ?? []), span]);
+    }
+    
+    const lines: string[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+      const sorted = [...(children.get(parentId) ?? [])].sort((a, b) => a.startTime - b.startTime);
+      for (const span of sorted) {
+        const duration = span.duration !== undefined ? `${span.duration}ms` : 'running';
+        const status = span.status === 'error' ? ` ❌ ${span.error ?? ''}` : span.status === 'unset' ? ' ⏸️' : '';
+        lines.push(`${'  '.repeat(depth)}${span.kind}: ${span.name} (${duration})${status}`);
+        visit(span.id, depth + 1);
+      }
+    };
+    visit(null, 0);
+    
+    return lines.join('\n');
+  }
+  
+  /**
+   * 生成交互式HTML追踪报告，输入可以是运行追踪或 saveTraceToFile 保存的扁平事件
+   */
+  static generateReportHTML(input: RunTrace | Array<RunTrace | TraceEvent>, options: TraceReportOptions = {}): string {
+    return generateTraceReport(input, options);
+  }
+  
   /**
    * 生成HTML时间线可视化
    */
@@ -170,9 +328,9 @@ export class TraceVisualizer {
         <div class="timeline-item">
           <div class="timeline-icon">${icon}</div>
           <div class="timeline-content">
-            <h3>${title}</h3>
-            <p>${time}</p>
-            <div>${content}</div>
+            <h3>${escapeHTML(title)}</h3>
+            <p>${escapeHTML(time)}</p>
+            <div>${escapeHTML(content)}</div>
           </div>
         </div>
       `;
@@ -206,3 +364,6 @@ export class TraceVisualizer {
     `;
   }
 }
+
+export * from './otlp';
+export * from './report';
@@ -0,0 +1,363 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { RunTrace, Span, TraceEvent, TraceSink } from '../core/types';
+
+/**
+ * OTLP属性值
+ */
+export type OTLPAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OTLPAnyValue[] } };
+
+/**
+ * OTLP键值对
+ */
+export interface OTLPKeyValue {
+  key: string;
+  value: OTLPAnyValue;
+}
+
+/**
+ * OTLP跨度（JSON编码）
+ */
+export interface OTLPSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** 1: INTERNAL, 3: CLIENT */
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OTLPKeyValue[];
+  events: Array<{ timeUnixNano: string; name: string; attributes: OTLPKeyValue[] }>;
+  /** code 0: UNSET, 1: OK, 2: ERROR */
+  status: { code: number; message?: string };
+}
+
+/**
+ * OTLP/HTTP JSON 导出请求体（ExportTraceServiceRequest）
+ */
+export interface OTLPExportRequest {
+  resourceSpans: Array<{
+    resource: { attributes: OTLPKeyValue[] };
+    scopeSpans: Array<{
+      scope: { name: string; version?: string };
+      spans: OTLPSpan[];
+    }>;
+  }>;
+}
+
+/**
+ * OTLP转换选项
+ */
+export interface OTLPOptions {
+  /** service.name 资源属性，默认 tars-swarm */
+  serviceName?: string;
+  /** 额外的资源属性 */
+  resourceAttributes?: Record<string, unknown>;
+}
+
+/**
+ * OTLP/HTTP 导出器配置
+ */
+export interface OTLPExporterOptions extends OTLPOptions {
+  /** 默认 http://localhost:4318/v1/traces */
+  endpoint?: string;
+  headers?: Record<string, string>;
+  /** 请求超时（毫秒），默认10000 */
+  timeout?: number;
+}
+
+/**
+ * 文件导出器配置
+ */
+export interface FileTraceExporterOptions extends OTLPOptions {
+  /** 输出文件路径，每次运行追加一行 */
+  path: string;
+  /** otlp: 每行一个OTLP JSON导出请求（与Collector的file exporter格式一致）；run: 每行一个原始RunTrace */
+  format?: 'otlp' | 'run';
+}
+
+const SCOPE_NAME = 'tars-swarm';
+
+/** 已由跨度本身表达、不再作为跨度事件导出的扁平事件 */
+const SPAN_COVERED_EVENTS = new Set<TraceEvent['type']>([
+  'agent_start',
+  'agent_end',
+  'model_call',
+  'function_call',
+  'function_return'
+]);
+
+/**
+ * 将运行ID转换为32位十六进制的traceId，UUID直接去掉连字符，其他ID取哈希
+ */
+export function toOTLPTraceId(runId: string): string {
+  const hex = runId.replace(/-/g, '').toLowerCase();
+  return /^[0-9a-f]{32}$/.test(hex) ? hex : createHash('sha256').update(runId).digest('hex').substring(0, 32);
+}
+
+/**
+ * 将运行追踪转换为OTLP跨度，遵循OpenTelemetry GenAI语义约定
+ * - run → invoke_workflow，agent → invoke_agent {name}，model_call → chat {model}，tool_call → execute_tool {name}
+ * - 切换、守卫检查、审批等扁平事件作为所在跨度的事件导出
+ */
+export function toOTLPSpans(trace: RunTrace): OTLPSpan[] {
+  const traceId = toOTLPTraceId(trace.traceId);
+  const runSpan = trace.spans.find(span => span.kind === 'run');
+  const eventsBySpan = new Map<string, TraceEvent[]>();
+
+  for (const event of trace.events) {
+    const spanId = event.spanId ?? runSpan?.id;
+    if (!spanId || SPAN_COVERED_EVENTS.has(event.type)) {
+      continue;
+    }
+    eventsBySpan.set(spanId, [...(eventsBySpan.get(spanId) ?? []), event]);
+  }
+
+  return trace.spans.map(span => ({
+    traceId,
+    spanId: span.id,
+    parentSpanId: span.parentId ?? undefined,
+    name: spanName(span),
+    kind: span.kind === 'model_call' ? 3 : 1,
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime ?? trace.endTime),
+    attributes: toKeyValues(spanAttributes(span, trace)),
+    events: (eventsBySpan.get(span.id) ?? []).map(event => ({
+      timeUnixNano: toUnixNano(event.timestamp),
+      name: event.type === 'guardrail_check' ? `guardrail_check.${event.data?.type ?? 'unknown'}` : event.type,
+      attributes: toKeyValues(flattenAttributes(event.data ?? {}))
+    })),
+    status: {
+      code: span.status === 'ok' ? 1 : span.status === 'error' ? 2 : 0,
+      message: span.error
+    }
+  }));
+}
+
+/**
+ * 将多个运行追踪组装为一个OTLP/HTTP JSON导出请求
+ */
+export function toOTLPRequest(traces: RunTrace[], options: OTLPOptions = {}): OTLPExportRequest {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toKeyValues({
+            'service.name': options.serviceName ?? 'tars-swarm',
+            'telemetry.sdk.name': SCOPE_NAME,
+            ...options.resourceAttributes
+          })
+        },
+        scopeSpans: [
+          {
+            scope: { name: SCOPE_NAME },
+            spans: traces.flatMap(trace => toOTLPSpans(trace))
+          }
+        ]
+      }
+    ]
+  };
+}
+
+/**
+ * OTLP/HTTP JSON 导出器 - 作为追踪接收器将每次运行发送到OpenTelemetry Collector
+ */
+export class OTLPTraceExporter implements TraceSink {
+  endpoint: string;
+  private headers: Record<string, string>;
+  private timeout: number;
+  private options: OTLPOptions;
+
+  constructor(options: OTLPExporterOptions = {}) {
+    this.endpoint = options.endpoint ?? 'http://localhost:4318/v1/traces';
+    this.headers = options.headers ?? {};
+    this.timeout = options.timeout ?? 10000;
+    this.options = { serviceName: options.serviceName, resourceAttributes: options.resourceAttributes };
+  }
+
+  async export(trace: RunTrace): Promise<void> {
+    await this.send(toOTLPRequest([trace], this.options));
+  }
+
+  /**
+   * 发送导出请求
+   */
+  async send(request: OTLPExportRequest): Promise<void> {
+    let response: Response;
+
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...this.headers
+        },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(this.timeout)
+      });
+    } catch (error) {
+      throw new Error(`OTLP导出失败 (${this.endpoint}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`OTLP导出失败 (${this.endpoint}): ${response.status} ${text.substring(0, 500)}`);
+    }
+  }
+}
+
+/**
+ * 文件导出器 - 作为追踪接收器将每次运行追加写入JSON Lines文件，便于离线查看
+ */
+export class FileTraceExporter implements TraceSink {
+  path: string;
+  format: 'otlp' | 'run';
+  private options: OTLPOptions;
+
+  constructor(options: FileTraceExporterOptions) {
+    this.path = options.path;
+    this.format = options.format ?? 'otlp';
+    this.options = { serviceName: options.serviceName, resourceAttributes: options.resourceAttributes };
+  }
+
+  export(trace: RunTrace): void {
+    const dir = path.dirname(this.path);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const record = this.format === 'otlp' ? toOTLPRequest([trace], this.options) : trace;
+    fs.appendFileSync(this.path, JSON.stringify(record) + '\n', 'utf8');
+  }
+}
+
+/**
+ * 按GenAI语义约定命名跨度
+ */
+function spanName(span: Span): string {
+  switch (span.kind) {
+    case 'run':
+      return 'invoke_workflow';
+    case 'agent':
+      return `invoke_agent ${span.name}`;
+    case 'model_call':
+      return `chat ${span.name}`;
+    case 'tool_call':
+      return `execute_tool ${span.name}`;
+    default:
+      return span.name;
+  }
+}
+
+/**
+ * 跨度属性：GenAI语义约定属性加上 tars_swarm.* 命名空间下的其余属性
+ */
+function spanAttributes(span: Span, trace: RunTrace): Record<string, unknown> {
+  const { attributes } = span;
+  const result: Record<string, unknown> = {
+    'tars_swarm.run.id': trace.runId,
+    'tars_swarm.span.kind': span.kind
+  };
+
+  switch (span.kind) {
+    case 'run':
+      Object.assign(result, {
+        'gen_ai.operation.name': 'invoke_workflow',
+        'tars_swarm.stop_reason': attributes.stopReason,
+        'tars_swarm.parent_run.id': attributes.parentRunId
+      });
+      break;
+    case 'agent':
+      Object.assign(result, {
+        'gen_ai.operation.name': 'invoke_agent',
+        'gen_ai.agent.name': attributes.agent
+      });
+      break;
+    case 'model_call':
+      Object.assign(result, {
+        'gen_ai.operation.name': 'chat',
+        'gen_ai.system': attributes.provider,
+        'gen_ai.request.model': attributes.model,
+        'gen_ai.usage.input_tokens': attributes.promptTokens,
+        'gen_ai.usage.output_tokens': attributes.completionTokens
+      });
+      break;
+    case 'tool_call':
+      Object.assign(result, {
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': attributes.tool,
+        'gen_ai.tool.call.id': attributes.tool_call_id
+      });
+      break;
+  }
+
+  for (const [key, value] of Object.entries(attributes)) {
+    result[`tars_swarm.${key}`] = value;
+  }
+
+  if (span.error) {
+    result['error.type'] = span.error;
+  }
+
+  return result;
+}
+
+/**
+ * 将嵌套对象展开为点分隔的属性
+ */
+function flattenAttributes(data: Record<string, unknown>, prefix: string = ''): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      Object.assign(result, flattenAttributes(value as Record<string, unknown>, name));
+    } else {
+      result[name] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 转换为OTLP键值对，忽略undefined和null
+ */
+function toKeyValues(attributes: Record<string, unknown>): OTLPKeyValue[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/**
+ * 转换为OTLP属性值，对象序列化为JSON字符串
+ */
+function toAnyValue(value: unknown): OTLPAnyValue {
+  if (typeof value === 'string') {
+    return { stringValue: value };
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.filter(item => item !== undefined && item !== null).map(toAnyValue) } };
+  }
+  return { stringValue: JSON.stringify(value) };
+}
+
+/**
+ * 毫秒时间戳转换为纳秒字符串
+ */
+function toUnixNano(milliseconds: number): string {
+  return milliseconds === 0 ? '0' : `${Math.round(milliseconds)}000000`;
+}
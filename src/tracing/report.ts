@@ -0,0 +1,466 @@
+import { Message, RunTrace, Span, TraceEvent } from '../core/types';
+
+/**
+ * HTML报告选项
+ */
+export interface TraceReportOptions {
+  /** 报告标题，默认 Agent Trace Report */
+  title?: string;
+}
+
+/**
+ * 报告中的一个事件，附带推断出的所属Agent
+ */
+interface ReportEvent {
+  event: TraceEvent;
+  agent: string;
+}
+
+/**
+ * 用量汇总行
+ */
+interface UsageRow {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+}
+
+/**
+ * 转义HTML特殊字符，用于文本内容和属性值
+ */
+export function escapeHTML(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 归一化报告输入：单个或多个运行追踪，或 saveTraceToFile 保存的扁平事件（按runId分组为运行，没有跨度）
+ */
+export function toRunTraces(input: RunTrace | Array<RunTrace | TraceEvent>): RunTrace[] {
+  const items: Array<RunTrace | TraceEvent> = Array.isArray(input) ? input : [input];
+  const traces = items.filter((item): item is RunTrace => 'spans' in item && 'events' in item);
+  const events = items.filter((item): item is TraceEvent => !('spans' in item && 'events' in item));
+  const groups = new Map<string, TraceEvent[]>();
+
+  for (const event of events) {
+    const runId = event.runId ?? 'run';
+    groups.set(runId, [...(groups.get(runId) ?? []), event]);
+  }
+
+  for (const [runId, runEvents] of groups) {
+    const start = runEvents.find(event => event.type === 'agent_start');
+    const end = [...runEvents].reverse().find(event => event.type === 'agent_end');
+    traces.push({
+      runId,
+      traceId: runId,
+      agent: start?.data?.agent ?? 'unknown',
+      startTime: Math.min(...runEvents.map(event => event.timestamp)),
+      endTime: Math.max(...runEvents.map(event => event.timestamp)),
+      stopReason: end?.data?.stopReason,
+      events: runEvents,
+      spans: []
+    });
+  }
+
+  return traces.sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * 生成自包含的交互式HTML追踪报告：用量汇总、Agent切换图、跨度耗时瀑布图和可折叠的完整事件内容，支持按事件类型和Agent过滤
+ * 报告不依赖外部资源，所有追踪内容都经过转义
+ */
+export function generateTraceReport(input: RunTrace | Array<RunTrace | TraceEvent>, options: TraceReportOptions = {}): string {
+  const title = options.title ?? 'Agent Trace Report';
+  const traces = toRunTraces(input);
+  const runs = traces.map(trace => ({ trace, events: attributeEvents(trace) }));
+  const allEvents = runs.flatMap(run => run.events);
+  const types = [...new Set(allEvents.map(({ event }) => event.type))].sort();
+  const agents = [...new Set(allEvents.map(({ agent }) => agent))];
+
+  const filters = `
+    <div class="filters">
+      <strong>Event types</strong>
+      ${types.map(type => `<label><input type="checkbox" data-filter-type value="${escapeHTML(type)}" checked> ${escapeHTML(type)}</label>`).join('')}
+      <label><strong>Agent</strong>
+        <select id="agent-filter">
+          <option value="">All agents</option>
+          ${agents.map(agent => `<option value="${escapeHTML(agent)}">${escapeHTML(agent)}</option>`).join('')}
+        </select>
+      </label>
+      <button type="button" data-expand="true">Expand all</button>
+      <button type="button" data-expand="false">Collapse all</button>
+    </div>`;
+
+  const sections = runs.map(({ trace, events }, index) => `
+    <section class="run">
+      <h2>Run <code>${escapeHTML(trace.runId)}</code></h2>
+      <p class="meta">
+        Agent <strong>${escapeHTML(trace.agent)}</strong> ·
+        ${escapeHTML(new Date(trace.startTime).toISOString())} ·
+        ${trace.endTime - trace.startTime}ms ·
+        stop reason <strong>${escapeHTML(trace.stopReason ?? 'unknown')}</strong>
+        ${trace.error ? `· <span class="error">${escapeHTML(trace.error)}</span>` : ''}
+      </p>
+      <h3>Usage</h3>
+      ${renderUsage(events)}
+      <h3>Handoffs</h3>
+      ${renderHandoffGraph(trace, events, `arrow-${index}`)}
+      <h3>Waterfall</h3>
+      ${renderWaterfall(trace)}
+      <h3>Events</h3>
+      <div class="events">
+        ${events.map(item => renderEvent(item, trace.startTime)).join('')}
+      </div>
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Arial, sans-serif; margin: 0; padding: 20px; color: #222; background: #f6f7f9; }
+  h1 { margin-top: 0; }
+  section.run { background: white; border-radius: 6px; box-shadow: 0 0 8px rgba(0,0,0,0.08); padding: 16px 20px; margin-bottom: 24px; }
+  .meta { color: #555; }
+  .error { color: #c0392b; }
+  .filters { position: sticky; top: 0; z-index: 2; background: white; padding: 10px; margin-bottom: 16px; border-radius: 6px; box-shadow: 0 0 8px rgba(0,0,0,0.08); display: flex; flex-wrap: wrap; gap: 10px; align-items: center; }
+  table { border-collapse: collapse; margin-bottom: 8px; }
+  th, td { border: 1px solid #ddd; padding: 4px 10px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  .empty { color: #888; font-style: italic; }
+  .waterfall-row { display: grid; grid-template-columns: 320px 1fr 80px; align-items: center; font-size: 13px; }
+  .waterfall-row:hover { background: #f0f3f7; }
+  .waterfall-label { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .waterfall-track { position: relative; height: 14px; background: #f2f2f2; }
+  .waterfall-bar { position: absolute; top: 0; bottom: 0; min-width: 2px; border-radius: 2px; }
+  .waterfall-duration { text-align: right; color: #555; }
+  .kind-run { background: #7f8c8d; }
+  .kind-agent { background: #8e44ad; }
+  .kind-turn { background: #2980b9; }
+  .kind-model_call { background: #27ae60; }
+  .kind-tool_call { background: #e67e22; }
+  .status-error { background: #c0392b; }
+  details.event { border-left: 3px solid #ccc; margin: 4px 0; padding: 2px 8px; }
+  details.event[data-type="handoff"] { border-color: #8e44ad; }
+  details.event[data-type="model_call"] { border-color: #27ae60; }
+  details.event[data-type="function_call"], details.event[data-type="function_return"] { border-color: #e67e22; }
+  details.event[data-type="guardrail_check"] { border-color: #2980b9; }
+  details.event summary { cursor: pointer; }
+  details.messages, .response { margin: 6px 0; }
+  .message pre { margin: 2px 0 6px; }
+  .role-system .badge { background: #eee; }
+  .role-assistant .badge { background: #e8f6ee; }
+  .role-tool .badge { background: #fdf0e3; }
+  .offset { display: inline-block; min-width: 70px; color: #888; font-family: monospace; }
+  .badge { display: inline-block; padding: 0 6px; border-radius: 3px; background: #eef; font-family: monospace; }
+  .agent { color: #8e44ad; }
+  pre { background: #fafafa; border: 1px solid #eee; padding: 8px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+  svg text { font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+${renderUsage(allEvents, `${traces.length} run(s), ${allEvents.length} event(s)`)}
+${filters}
+${sections}
+<script>
+(function () {
+  var typeBoxes = Array.prototype.slice.call(document.querySelectorAll('input[data-filter-type]'));
+  var agentSelect = document.getElementById('agent-filter');
+  function applyFilters() {
+    var types = typeBoxes.filter(function (box) { return box.checked; }).map(function (box) { return box.value; });
+    var agent = agentSelect.value;
+    document.querySelectorAll('details.event').forEach(function (el) {
+      el.hidden = types.indexOf(el.getAttribute('data-type')) < 0 || (agent !== '' && el.getAttribute('data-agent') !== agent);
+    });
+    document.querySelectorAll('.waterfall-row').forEach(function (el) {
+      el.hidden = agent !== '' && el.getAttribute('data-agent') !== agent;
+    });
+  }
+  typeBoxes.forEach(function (box) { box.addEventListener('change', applyFilters); });
+  agentSelect.addEventListener('change', applyFilters);
+  document.querySelectorAll('button[data-expand]').forEach(function (button) {
+    button.addEventListener('click', function () {
+      var open = button.getAttribute('data-expand') === 'true';
+      document.querySelectorAll('details.event').forEach(function (el) { if (!el.hidden) { el.open = open; } });
+    });
+  });
+})();
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * 按事件顺序推断每个事件所属的Agent：agent_start设置当前Agent，handoff切换到目标Agent
+ */
+function attributeEvents(trace: RunTrace): ReportEvent[] {
+  let current = trace.agent;
+  return trace.events.map(event => {
+    if (event.type === 'agent_start' && event.data?.agent) {
+      current = event.data.agent;
+    }
+    const agent = event.type === 'handoff' ? event.data?.from ?? current : event.data?.agent ?? current;
+    if (event.type === 'handoff' && event.data?.to) {
+      current = event.data.to;
+    }
+    return { event, agent };
+  });
+}
+
+/**
+ * 渲染按Agent和模型汇总的Token用量和费用，数据来自model_call事件
+ */
+function renderUsage(events: ReportEvent[], caption?: string): string {
+  const byAgent = new Map<string, UsageRow>();
+  const byModel = new Map<string, UsageRow>();
+  const total: UsageRow = { calls: 0, promptTokens: 0, completionTokens: 0 };
+
+  for (const { event, agent } of events) {
+    if (event.type !== 'model_call') {
+      continue;
+    }
+    for (const row of [
+      total,
+      getOrCreate(byAgent, agent),
+      getOrCreate(byModel, String(event.data?.model ?? 'unknown'))
+    ]) {
+      row.calls++;
+      row.promptTokens += event.data?.usage?.prompt_tokens ?? 0;
+      row.completionTokens += event.data?.usage?.completion_tokens ?? 0;
+      if (typeof event.data?.cost === 'number') {
+        row.cost = (row.cost ?? 0) + event.data.cost;
+      }
+    }
+  }
+
+  if (total.calls === 0) {
+    return `${caption ? `<p>${escapeHTML(caption)}</p>` : ''}<p class="empty">No model calls recorded.</p>`;
+  }
+
+  const rows = (label: string, entries: Map<string, UsageRow>) => [...entries].map(([name, row]) => renderUsageRow(`${label}: ${name}`, row)).join('');
+
+  return `
+    ${caption ? `<p>${escapeHTML(caption)}</p>` : ''}
+    <table>
+      <thead><tr><th></th><th>Calls</th><th>Prompt tokens</th><th>Completion tokens</th><th>Total tokens</th><th>Cost (USD)</th></tr></thead>
+      <tbody>
+        ${renderUsageRow('Total', total)}
+        ${rows('Agent', byAgent)}
+        ${rows('Model', byModel)}
+      </tbody>
+    </table>`;
+}
+
+/**
+ * 渲染用量表的一行
+ */
+function renderUsageRow(label: string, row: UsageRow): string {
+  return `<tr><td>${escapeHTML(label)}</td><td>${row.calls}</td><td>${row.promptTokens}</td><td>${row.completionTokens}</td><td>${row.promptTokens + row.completionTokens}</td><td>${row.cost !== undefined ? row.cost.toFixed(6) : '-'}</td></tr>`;
+}
+
+/**
+ * 渲染Agent切换图（SVG）：节点按出现顺序排列，向后的切换画在上方，向前的切换画在下方
+ */
+function renderHandoffGraph(trace: RunTrace, events: ReportEvent[], markerId: string): string {
+  const edges = new Map<string, { from: string; to: string; count: number; reasons: Set<string> }>();
+  const nodes: string[] = [trace.agent];
+
+  for (const { event } of events) {
+    if (event.type !== 'handoff' || !event.data?.from || !event.data?.to) {
+      continue;
+    }
+    const { from, to } = event.data as { from: string; to: string };
+    for (const name of [from, to]) {
+      if (!nodes.includes(name)) {
+        nodes.push(name);
+      }
+    }
+    const key = `${from}\u0000${to}`;
+    const edge = edges.get(key) ?? { from, to, count: 0, reasons: new Set<string>() };
+    edge.count++;
+    if (event.data.reason) {
+      edge.reasons.add(String(event.data.reason));
+    }
+    edges.set(key, edge);
+  }
+
+  if (edges.size === 0) {
+    return '<p class="empty">No handoffs.</p>';
+  }
+
+  const spacing = 180;
+  const nodeY = 90;
+  const x = (name: string) => 90 + nodes.indexOf(name) * spacing;
+  const width = 180 + (nodes.length - 1) * spacing;
+
+  const paths = [...edges.values()].filter(edge => edge.from !== edge.to).map(edge => {
+    const x1 = x(edge.from);
+    const x2 = x(edge.to);
+    const forward = x2 > x1;
+    const curve = Math.min(70, 20 + Math.abs(x2 - x1) / 6);
+    const y = forward ? nodeY - 18 : nodeY + 18;
+    const controlY = forward ? y - curve : y + curve;
+    const label = `${edge.count}×${edge.reasons.size > 0 ? ` (${[...edge.reasons].join(', ')})` : ''}`;
+    return `
+      <path d="M ${x1} ${y} Q ${(x1 + x2) / 2} ${controlY} ${x2} ${y}" fill="none" stroke="#8e44ad" stroke-width="1.5" marker-end="url(#${markerId})"/>
+      <text x="${(x1 + x2) / 2}" y="${forward ? controlY / 2 + y / 2 - 4 : controlY / 2 + y / 2 + 14}" text-anchor="middle">${escapeHTML(label)}</text>`;
+  }).join('');
+
+  const boxes = nodes.map(name => `
+      <rect x="${x(name) - 75}" y="${nodeY - 18}" width="150" height="36" rx="6" fill="#f4ecf7" stroke="#8e44ad"/>
+      <text x="${x(name)}" y="${nodeY + 4}" text-anchor="middle"><title>${escapeHTML(name)}</title>${escapeHTML(name.length > 20 ? name.substring(0, 19) + '…' : name)}</text>`).join('');
+
+  return `
+    <svg width="${width}" height="${nodeY * 2}" viewBox="0 0 ${width} ${nodeY * 2}" role="img" aria-label="Handoff graph">
+      <defs><marker id="${markerId}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#8e44ad"/></marker></defs>
+      ${paths}
+      ${boxes}
+    </svg>`;
+}
+
+/**
+ * 渲染跨度耗时瀑布图，按父子关系缩进，横条位置相对于运行起点
+ */
+function renderWaterfall(trace: RunTrace): string {
+  if (trace.spans.length === 0) {
+    return '<p class="empty">No spans in this trace (flat event files have no span data; save a RunTrace, e.g. with FileTraceExporter format "run").</p>';
+  }
+
+  const ids = new Set(trace.spans.map(span => span.id));
+  const children = new Map<string | null, Span[]>();
+  for (const span of trace.spans) {
+    const parentId = span.parentId !== null && ids.has(span.parentId) ? span.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), span]);
+  }
+
+  const start = Math.min(trace.startTime, ...trace.spans.map(span => span.startTime));
+  const end = Math.max(trace.endTime, ...trace.spans.map(span => span.endTime ?? span.startTime));
+  const total = Math.max(1, end - start);
+  const rows: string[] = [];
+
+  const visit = (parentId: string | null, depth: number, agent: string) => {
+    const sorted = [...(children.get(parentId) ?? [])].sort((a, b) => a.startTime - b.startTime);
+    for (const span of sorted) {
+      const spanAgent = span.attributes.agent ?? agent;
+      const spanEnd = span.endTime ?? end;
+      const left = ((span.startTime - start) / total) * 100;
+      const width = ((spanEnd - span.startTime) / total) * 100;
+      const tooltip = `${span.kind} ${span.name}: ${spanEnd - span.startTime}ms, ${span.status}${span.error ? ` (${span.error})` : ''}`;
+      rows.push(`
+        <div class="waterfall-row" data-agent="${escapeHTML(spanAgent)}" title="${escapeHTML(tooltip)}">
+          <div class="waterfall-label" style="padding-left: ${depth * 14}px">${escapeHTML(span.kind)}: ${escapeHTML(span.name)}</div>
+          <div class="waterfall-track"><div class="waterfall-bar kind-${escapeHTML(span.kind)}${span.status === 'error' ? ' status-error' : ''}" style="left: ${left.toFixed(2)}%; width: ${width.toFixed(2)}%"></div></div>
+          <div class="waterfall-duration">${span.duration !== undefined ? `${span.duration}ms` : 'running'}</div>
+        </div>`);
+      visit(span.id, depth + 1, spanAgent);
+    }
+  };
+  visit(null, 0, trace.agent);
+
+  return rows.join('');
+}
+
+/**
+ * 渲染单个事件：摘要行和可折叠的完整内容
+ */
+function renderEvent({ event, agent }: ReportEvent, runStart: number): string {
+  return `
+    <details class="event" data-type="${escapeHTML(event.type)}" data-agent="${escapeHTML(agent)}">
+      <summary>
+        <span class="offset">+${event.timestamp - runStart}ms</span>
+        <span class="badge">${escapeHTML(event.type)}</span>
+        <span class="agent">${escapeHTML(agent)}</span>
+        ${escapeHTML(describeEvent(event))}
+      </summary>
+      ${event.type === 'model_call' ? renderModelCall(event.data ?? {}) : `<pre>${escapeHTML(JSON.stringify(event.data, null, 2))}</pre>`}
+    </details>`;
+}
+
+/**
+ * 渲染模型调用：可折叠的请求消息、模型回复和其余数据
+ * 请求消息只包含相对上一次调用变化的系统消息和新增消息，没有messageOffset的旧追踪记录的是完整请求
+ */
+function renderModelCall(data: Record<string, any>): string {
+  const { system, messageOffset, messages = [], response, ...rest } = data;
+  const shown: Message[] = [...(typeof system === 'string' ? [{ role: 'system' as const, content: system }] : []), ...messages];
+  const summary = typeof messageOffset === 'number'
+    ? `Request · ${messageOffset + messages.length + 1} message(s), ${shown.length} new`
+    : `Request · ${messages.length} message(s)`;
+  return `
+      <details class="messages">
+        <summary>${summary}</summary>
+        ${shown.map(renderMessage).join('')}
+      </details>
+      ${response ? `<div class="response">Response${renderMessage(response)}</div>` : ''}
+      <pre>${escapeHTML(JSON.stringify(rest, null, 2))}</pre>`;
+}
+
+/**
+ * 渲染单条消息：角色、内容和工具调用
+ */
+function renderMessage(message: Message): string {
+  const label = message.tool_call_id ? `${message.role} · ${message.tool_call_id}` : message.role;
+  const toolCalls = (message.tool_calls ?? []).map(call => `→ ${call.function.name}(${call.function.arguments}) [${call.id}]`);
+  const body = [message.content ?? '', ...toolCalls].filter(Boolean).join('\n');
+  return `
+        <div class="message role-${escapeHTML(message.role)}">
+          <span class="badge">${escapeHTML(label)}</span>
+          <pre>${body ? escapeHTML(body) : '<span class="empty">(empty)</span>'}</pre>
+        </div>`;
+}
+
+/**
+ * 事件的一行摘要
+ */
+function describeEvent(event: TraceEvent): string {
+  const data = event.data ?? {};
+  switch (event.type) {
+    case 'model_call':
+      return `${data.model}${data.usage ? ` · ${data.usage.prompt_tokens} in / ${data.usage.completion_tokens} out` : ''}${typeof data.cost === 'number' ? ` · $${data.cost.toFixed(6)}` : ''}`;
+    case 'function_call':
+      return `${data.name}(${truncate(JSON.stringify(data.arguments ?? {}), 80)})`;
+    case 'function_return':
+      return data.error ? `${data.name} failed: ${data.error}` : `${data.name} → ${truncate(JSON.stringify(data.result) ?? '', 80)}`;
+    case 'handoff':
+      return `${data.from} → ${data.to}${data.reason ? ` (${data.reason})` : ''}`;
+    case 'guardrail_check':
+      return `${data.type} ${data.success ? 'passed' : `failed: ${(data.errors ?? []).join(', ')}`}`;
+    case 'tool_approval':
+      return `${data.tool} ${data.decision}`;
+    case 'budget_exceeded':
+      return `${data.limit}: ${data.value} >= ${data.max}`;
+    case 'aborted':
+      return String(data.reason ?? '');
+    case 'agent_end':
+      return data.stopReason ? `stop reason: ${data.stopReason}` : '';
+    default:
+      return '';
+  }
+}
+
+/**
+ * 截断过长的摘要文本
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.substring(0, length) + '...' : text;
+}
+
+/**
+ * 获取或创建用量汇总行
+ */
+function getOrCreate(rows: Map<string, UsageRow>, key: string): UsageRow {
+  let row = rows.get(key);
+  if (!row) {
+    row = { calls: 0, promptTokens: 0, completionTokens: 0 };
+    rows.set(key, row);
+  }
+  return row;
+}
@@ -1,7 +1,9 @@
 import fs from 'fs';
 import path from 'path';
-import { TraceEvent } from '../core/types';
-import { TraceVisualizer } from '../tracing';
+import { Message, PendingToolCall, RunOptions, RunTrace, ToolDecision, TraceEvent } from '../core/types';
+import { Agent } from '../core/agent';
+import { Swarm } from '../core/swarm';
+import { TraceReportOptions, TraceVisualizer } from '../tracing';
 
 /**
  * 保存跟踪事件到文件
@@ -30,6 +32,50 @@ export function saveTraceToFile(
   }
 }
 
+/**
+ * 从文件加载追踪：saveTraceToFile 保存的事件数组、单个运行追踪，或 FileTraceExporter（format: 'run'）写入的JSON Lines
+ */
+export function loadTraceFromFile(filePath: string): Array<RunTrace | TraceEvent> {
+  const text = fs.readFileSync(filePath, 'utf8').trim();
+  let records: any[];
+  
+  try {
+    const value = JSON.parse(text);
+    records = Array.isArray(value) ? value : [value];
+  } catch {
+    // 每行一个运行追踪
+    records = text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+  }
+  
+  if (records.some(record => record && 'resourceSpans' in record)) {
+    throw new Error(`不支持OTLP格式的追踪文件: ${filePath}，请使用 FileTraceExporter 的 format: 'run' 保存`);
+  }
+  return records;
+}
+
+/**
+ * 将追踪保存为交互式HTML报告
+ */
+export function saveTraceReport(
+  trace: RunTrace | Array<RunTrace | TraceEvent>,
+  filePath: string,
+  options: TraceReportOptions = {}
+): void {
+  try {
+    // 确保目录存在
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    
+    fs.writeFileSync(filePath, TraceVisualizer.generateReportHTML(trace, options), 'utf8');
+    
+    console.log(`追踪报告已保存到 ${filePath}`);
+  } catch (error) {
+    console.error('保存追踪报告失败:', error);
+  }
+}
+
 /**
  * 将跟踪事件保存为HTML时间线
  */
@@ -57,10 +103,11 @@ export function saveTraceAsHtml(
 /**
  * 打印消息链
  */
-export function printMessageChain(messages: any[]): void {
+export function printMessageChain(messages: Message[]): void {
   messages.forEach((message, index) => {
     if (index === 0 && message.role === 'system') {
-      console.log(`系统: ${message.content.substring(0, 100)}${message.content.length > 100 ? '...' : ''}`);
+      const content = message.content ?? '';
+      console.log(`系统: ${content.substring(0, 100)}${content.length > 100 ? '...' : ''}`);
       return;
     }
     
@@ -71,7 +118,7 @@ export function printMessageChain(messages: any[]): void {
       case 'assistant':
         console.log(`助手: ${message.content}`);
         if (message.tool_calls) {
-          message.tool_calls.forEach((tool: any) => {
+          message.tool_calls.forEach(tool => {
             if (tool.type === 'function') {
               console.log(`调用函数: ${tool.function.name}(${tool.function.arguments})`);
             }
@@ -92,8 +139,8 @@ export function printMessageChain(messages: any[]): void {
  * 创建交互式命令行界面
  */
 export function createInteractiveCLI(
-  swarm: any,
-  agent: any,
+  swarm: Swarm,
+  agent: Agent,
   options: {
     prompt?: string;
     contextVariables?: Record<string, any>;
@@ -108,9 +155,53 @@ export function createInteractiveCLI(
     output: process.stdout
   });
   
-  let messages: any[] = [];
+  let messages: Message[] = [];
+  let contextVars = contextVariables;
+  // 正在运行的回合，Ctrl-C时取消该回合而不是退出
+  let activeRun: AbortController | null = null;
+  
+  rl.on('SIGINT', () => {
+    if (activeRun) {
+      activeRun.abort();
+    } else {
+      rl.close();
+    }
+  });
+  
+  console.log('输入 "exit" 或 "quit" 退出，按 Ctrl-C 取消正在进行的回答\n');
+  
+  const ask = (question: string) => new Promise<string>(resolve => rl.question(question, resolve));
   
-  console.log('输入 "exit" 或 "quit" 退出\n');
+  // 逐个询问需要审批的工具调用：批准、拒绝（可附原因）或修改参数
+  const askDecisions = async (pending: PendingToolCall[]): Promise<Record<string, ToolDecision>> => {
+    const decisions: Record<string, ToolDecision> = {};
+    
+    for (const { tool_call, requiresApproval } of pending) {
+      if (!requiresApproval) {
+        continue;
+      }
+      
+      console.log(`\n工具 ${tool_call.function.name} 需要审批，参数: ${tool_call.function.arguments}`);
+      const answer = (await ask('是否执行? [y] 批准 / [n] 拒绝 / [e] 修改参数: ')).trim().toLowerCase();
+      
+      if (answer === 'y' || answer === 'yes') {
+        decisions[tool_call.id] = { action: 'approve' };
+      } else if (answer === 'e') {
+        const edited = await ask('新的参数 (JSON): ');
+        try {
+          decisions[tool_call.id] = { action: 'edit', arguments: JSON.parse(edited) };
+        } catch {
+          console.log('参数不是有效的JSON，已拒绝该调用');
+          decisions[tool_call.id] = { action: 'reject', reason: '用户提供的参数无效' };
+        }
+      } else {
+        const reason = (await ask('拒绝原因 (可选): ')).trim();
+        decisions[tool_call.id] = { action: 'reject', reason: reason || undefined };
+      }
+    }
+    
+    return decisions;
+  };
   
   const promptUser = () => {
     rl.question(prompt, async (input: string) => {
@@ -122,34 +213,73 @@ export function createInteractiveCLI(
       messages.push({ role: 'user', content: input });
       
       try {
-        if (stream) {
-          // 处理流式响应
-          console.log('\n');
-          const streamResponse = swarm.run(agent, messages, contextVariables, true);
+        // 运行因工具审批暂停时询问用户，再按决定恢复，直到运行结束
+        let toolDecisions: Record<string, ToolDecision> | undefined;
+        // 暂停运行的ID、用量和工具调用次数，恢复后沿用
+        let paused: Pick<RunOptions, 'usage' | 'toolInvocations' | 'runId'> = {};
+        do {
+          activeRun = new AbortController();
+          const runOptions = { context_variables: contextVars, signal: activeRun.signal, toolDecisions, ...paused };
+          let pending: PendingToolCall[] | undefined;
           
-          for await (const chunk of streamResponse) {
-            if (chunk.delim === 'start') {
-              process.stdout.write('助手: ');
-            } else if (chunk.choices && chunk.choices[0].delta.content) {
-              process.stdout.write(chunk.choices[0].delta.content);
-            } else if (chunk.delim === 'end') {
-              process.stdout.write('\n\n');
+          if (stream) {
+            // 处理流式响应
+            console.log('\n');
+            const streamResponse = swarm.runStream(agent, messages, runOptions);
+            
+            for await (const chunk of streamResponse) {
+              if (chunk.type === 'stream_start') {
+                process.stdout.write('助手: ');
+              } else if (chunk.type === 'content') {
+                process.stdout.write(chunk.content);
+              } else if (chunk.type === 'stream_end') {
+                process.stdout.write('\n\n');
+              } else if (chunk.type === 'complete') {
+                // 更新消息历史、Agent和上下文变量
+                messages = chunk.messages;
+                agent = chunk.agent;
+                contextVars = chunk.context_variables;
+                pending = chunk.pendingToolCalls;
+                paused = { usage: chunk.usage, toolInvocations: chunk.toolInvocations, runId: chunk.runId };
+              } else if (chunk.type === 'error') {
+                console.error('错误:', chunk.error);
+              } else if (chunk.type === 'aborted') {
+                console.log('\n[已取消]\n');
+              } else if (chunk.type === 'budget_exceeded') {
+                console.log(`\n[已达到用量预算 ${chunk.limit}: ${chunk.value} / ${chunk.max}]\n`);
+              }
+            }
+          } else {
+            // 处理非流式响应
+            const response = await swarm.run(agent, messages, runOptions);
+            
+            // 更新消息历史、Agent和上下文变量
+            messages = response.messages;
+            agent = response.agent;
+            contextVars = response.context_variables;
+            pending = response.pendingToolCalls;
+            paused = { usage: response.usage, toolInvocations: response.toolInvocations, runId: response.runId };
+            
+            // 输出响应
+            if (response.stopReason === 'error') {
+              console.error('错误:', response.error?.message);
+            } else if (response.stopReason === 'aborted') {
+              console.log('\n[已取消]\n');
+            } else if (response.stopReason === 'budget_exceeded') {
+              console.log(`\n[已达到用量预算，共 ${response.usage.totalTokens} tokens]\n`);
+            } else if (response.stopReason !== 'tool_requires_approval') {
+              const lastMessage = messages[messages.length - 1];
+              console.log(`\n助手: ${lastMessage.content}\n`);
             }
           }
-        } else {
-          // 处理非流式响应
-          const response = await swarm.run(agent, messages, contextVariables) as any;
           
-          // 更新消息历史和Agent
-          messages = response.messages;
-          agent = response.agent;
-          
-          // 输出响应
-          const lastMessage = messages[messages.length - 1];
-          console.log(`\n助手: ${lastMessage.content}\n`);
-        }
+          activeRun = null;
+          toolDecisions = pending ? await askDecisions(pending) : undefined;
+        } while (toolDecisions);
       } catch (error) {
         console.error('错误:', error);
+      } finally {
+        activeRun = null;
       }
       
       promptUser();
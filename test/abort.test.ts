@@ -0,0 +1,79 @@
+import { Agent, SwarmTestHarness, defineTool } from '../src';
+
+describe('取消和截止时间', () => {
+  const createAgent = (executed: string[], onFastDone?: () => void) => new Agent({
+    name: '助手',
+    instructions: '你是助手。',
+    functions: [
+      defineTool({
+        name: 'fast',
+        parameters: { type: 'object', properties: {} },
+        handler: () => {
+          executed.push('fast');
+          onFastDone?.();
+          return '已退款';
+        }
+      }),
+      defineTool({
+        name: 'slow',
+        parameters: { type: 'object', properties: {} },
+        handler: (args, context, { signal }) => new Promise<string>((resolve, reject) => {
+          executed.push('slow');
+          const timer = setTimeout(() => resolve('慢速完成'), 1000);
+          signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+          }, { once: true });
+        })
+      })
+    ]
+  });
+  const script = () => [
+    { tool_calls: [{ id: 'call_fast', name: 'fast' }, { id: 'call_slow', name: 'slow' }] },
+    { content: '不应到达' }
+  ];
+
+  it('并行工具执行中取消时保留已完成调用的结果，只取消未完成的调用', async () => {
+    const executed: string[] = [];
+    const controller = new AbortController();
+    const agent = createAgent(executed, () => setTimeout(() => controller.abort(new Error('用户取消')), 10));
+    const harness = new SwarmTestHarness(script());
+
+    const response = await harness.swarm.run(agent, [{ role: 'user', content: '退款' }], { signal: controller.signal });
+
+    expect(response.stopReason).toBe('aborted');
+    expect(executed.sort()).toEqual(['fast', 'slow']);
+    const toolMessages = response.messages.filter(message => message.role === 'tool');
+    expect(toolMessages).toEqual([
+      expect.objectContaining({ tool_call_id: 'call_fast', content: '已退款' }),
+      expect.objectContaining({ tool_call_id: 'call_slow', content: '工具 slow 调用已取消' })
+    ]);
+    expect(harness.provider.requests).toHaveLength(1);
+  });
+
+  it('到达截止时间时同样保留已完成的并行调用', async () => {
+    const executed: string[] = [];
+    const harness = new SwarmTestHarness(script());
+
+    const response = await harness.swarm.run(createAgent(executed), [{ role: 'user', content: '退款' }], {
+      deadline: Date.now() + 50
+    });
+
+    expect(response.stopReason).toBe('aborted');
+    expect(response.messages.filter(message => message.role === 'tool').map(message => message.content)).toEqual([
+      '已退款',
+      '工具 slow 调用已取消'
+    ]);
+  });
+
+  it('流式运行中取消时产出aborted事件并返回部分结果', async () => {
+    const controller = new AbortController();
+    const harness = new SwarmTestHarness([{ content: '很长的回复', delay: 1000 }]);
+    setTimeout(() => controller.abort(new Error('用户取消')), 10);
+
+    const result = await harness.runStream(createAgent([]), [{ role: 'user', content: '你好' }], { signal: controller.signal });
+
+    result.expectStopReason('aborted').expectStreamEvent('aborted');
+    expect(result.response.messages.map(message => message.role)).toEqual(['user']);
+  });
+});
@@ -0,0 +1,112 @@
+import { Agent, SwarmTestHarness, defineTool } from '../src';
+
+describe('工具审批', () => {
+  const createAgent = (refunds: number[]) => new Agent({
+    name: '客服',
+    instructions: '你是客服。',
+    functions: [
+      defineTool<{ amount: number }>({
+        name: 'refund',
+        parameters: { type: 'object', properties: { amount: { type: 'number' } }, required: ['amount'] },
+        requiresApproval: true,
+        handler: ({ amount }) => {
+          refunds.push(amount);
+          return `已退款 ${amount}`;
+        }
+      })
+    ]
+  });
+
+  it('决定只作用于暂停的那一批调用，后续回合的同ID调用需要重新审批', async () => {
+    const refunds: number[] = [];
+    const agent = createAgent(refunds);
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ id: 'call_0', name: 'refund', arguments: { amount: 5 } }] },
+      { tool_calls: [{ id: 'call_0', name: 'refund', arguments: { amount: 5000 } }] },
+      { content: '不应到达' }
+    ]);
+
+    const paused = await harness.run(agent, [{ role: 'user', content: '退款' }]);
+    paused.expectStopReason('tool_requires_approval');
+
+    const resumed = await harness.swarm.resume(paused.response, { call_0: { action: 'approve' } });
+
+    expect(refunds).toEqual([5]);
+    expect(resumed.stopReason).toBe('tool_requires_approval');
+    expect(resumed.pendingToolCalls?.map(p => JSON.parse(p.tool_call.function.arguments))).toEqual([{ amount: 5000 }]);
+  });
+
+  it('edit只改写被恢复的调用，不影响历史中更早的同ID调用', async () => {
+    const refunds: number[] = [];
+    const agent = createAgent(refunds);
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ id: 'call_0', name: 'refund', arguments: { amount: 5000 } }] },
+      { content: '已处理' }
+    ]);
+
+    const history = [
+      { role: 'user' as const, content: '之前的退款' },
+      {
+        role: 'assistant' as const,
+        content: null,
+        tool_calls: [{ id: 'call_0', type: 'function' as const, function: { name: 'refund', arguments: '{"amount":1}' } }]
+      },
+      { role: 'tool' as const, content: '已退款 1', tool_call_id: 'call_0', name: 'refund' },
+      { role: 'user' as const, content: '再退一次' }
+    ];
+
+    const paused = await harness.run(agent, history);
+    paused.expectStopReason('tool_requires_approval');
+
+    const resumed = await harness.swarm.resume(paused.response, { call_0: { action: 'edit', arguments: { amount: 50 } } });
+
+    expect(refunds).toEqual([50]);
+    expect(resumed.messages[1].tool_calls?.[0].function.arguments).toBe('{"amount":1}');
+    expect(resumed.messages[4].tool_calls?.[0].function.arguments).toBe('{"amount":50}');
+  });
+
+  it('恢复后工具调用上限包含暂停前的调用次数', async () => {
+    const refunds: number[] = [];
+    const agent = createAgent(refunds);
+    agent.guardrails.tools = { maxInvocations: 1 };
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ id: 'call_0', name: 'refund', arguments: { amount: 5 } }] },
+      { tool_calls: [{ id: 'call_1', name: 'refund', arguments: { amount: 6 } }] },
+      { content: '已处理' }
+    ]);
+
+    const paused = await harness.run(agent, [{ role: 'user', content: '退款' }]);
+    const second = await harness.swarm.resume(paused.response, { call_0: { action: 'approve' } });
+    expect(second.toolInvocations).toEqual({ refund: 1 });
+
+    const resumed = await harness.swarm.resume(second, { call_1: { action: 'approve' } });
+
+    expect(refunds).toEqual([5]);
+    expect(resumed.messages.find(message => message.tool_call_id === 'call_1')?.content).toContain('调用总上限');
+  });
+
+  it('恢复后继续累计用量并按整个运行检查预算', async () => {
+    const refunds: number[] = [];
+    const agent = createAgent(refunds);
+    const usage = { prompt_tokens: 8, completion_tokens: 2, total_tokens: 10 };
+    const script = () => [
+      { tool_calls: [{ id: 'call_0', name: 'refund', arguments: { amount: 5 } }], usage },
+      { content: '已处理', usage }
+    ];
+
+    const harness = new SwarmTestHarness(script());
+    const paused = await harness.run(agent, [{ role: 'user', content: '退款' }]);
+    const resumed = await harness.swarm.resume(paused.response, { call_0: { action: 'approve' } });
+
+    expect(resumed.usage.totalTokens).toBe(20);
+    expect(resumed.usage.byTurn.map(turn => turn.turn)).toEqual([1, 2]);
+
+    const limited = new SwarmTestHarness(script(), { budget: { maxTokens: 10 } });
+    const pausedLimited = await limited.run(agent, [{ role: 'user', content: '退款' }]);
+    const stopped = await limited.swarm.resume(pausedLimited.response, { call_0: { action: 'approve' } });
+
+    expect(stopped.stopReason).toBe('budget_exceeded');
+    expect(stopped.usage.totalTokens).toBe(10);
+    expect(limited.provider.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Agent, CassetteMismatchError, CassetteProvider, CassetteFile, MockModelProvider, Swarm } from '../src';
+
+describe('CassetteProvider', () => {
+  let dir: string;
+  let cassettePath: string;
+  const agent = new Agent({ name: '助手', instructions: '你是助手。' });
+  const messages = [{ role: 'user' as const, content: '你好' }];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tars-swarm-cassette-'));
+    cassettePath = path.join(dir, 'cassettes', 'hello.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const record = async () => {
+    const real = new MockModelProvider([{ content: '你好！' }, { content: '流式你好', chunks: ['流式', '你好'] }]);
+    const swarm = new Swarm({ modelProvider: new CassetteProvider({ path: cassettePath, mode: 'record', provider: real }) });
+    await swarm.run(agent, messages);
+    for await (const event of swarm.runStream(agent, [{ role: 'user', content: '流式' }])) {
+      void event;
+    }
+    return real;
+  };
+
+  it('record模式把请求和响应（含流式数据块）写入磁带文件', async () => {
+    const real = await record();
+
+    expect(real.requests).toHaveLength(2);
+    const file = JSON.parse(fs.readFileSync(cassettePath, 'utf8')) as CassetteFile;
+    expect(file.version).toBe(1);
+    expect(file.entries).toHaveLength(2);
+    expect(file.entries[0].request.messages).toEqual([{ role: 'system', content: '你是助手。' }, ...messages]);
+    expect(file.entries[0].response?.choices[0].message.content).toBe('你好！');
+    expect(file.entries[1].chunks?.map(chunk => chunk.choices[0]?.delta?.content).filter(Boolean)).toEqual(['流式', '你好']);
+  });
+
+  it('replay模式不需要真实提供商，按录制内容回放', async () => {
+    await record();
+    const swarm = new Swarm({ modelProvider: new CassetteProvider({ path: cassettePath, mode: 'replay' }) });
+
+    const response = await swarm.run(agent, messages);
+    let streamed = '';
+    for await (const event of swarm.runStream(agent, [{ role: 'user', content: '流式' }])) {
+      if (event.type === 'content') {
+        streamed += event.content;
+      }
+    }
+
+    expect(response.messages[response.messages.length - 1].content).toBe('你好！');
+    expect(streamed).toBe('流式你好');
+  });
+
+  it('auto模式命中时回放，未命中时调用真实提供商并录制', async () => {
+    await record();
+    const real = new MockModelProvider([{ content: '新的回复' }]);
+    const swarm = new Swarm({ modelProvider: new CassetteProvider({ path: cassettePath, mode: 'auto', provider: real }) });
+
+    const replayed = await swarm.run(agent, messages);
+    const recorded = await swarm.run(agent, [{ role: 'user', content: '新问题' }]);
+
+    expect(replayed.messages[1].content).toBe('你好！');
+    expect(recorded.messages[1].content).toBe('新的回复');
+    expect(real.requests).toHaveLength(1);
+    expect((JSON.parse(fs.readFileSync(cassettePath, 'utf8')) as CassetteFile).entries).toHaveLength(3);
+  });
+
+  it('回放时请求不匹配抛出带差异的错误', async () => {
+    await record();
+    const cassette = new CassetteProvider({ path: cassettePath, mode: 'replay' });
+
+    const [recorded] = cassette.getEntries();
+    const call = cassette.createChatCompletion({
+      ...recorded.request,
+      messages: [recorded.request.messages[0], { role: 'user', content: '再见' }]
+    });
+
+    await expect(call).rejects.toBeInstanceOf(CassetteMismatchError);
+    await expect(call).rejects.toMatchObject({ differences: ['messages[1].content'] });
+    await expect(call).rejects.toThrow('messages[1].content');
+  });
+
+  it('replay模式下磁带文件不存在时报错', () => {
+    expect(() => new CassetteProvider({ path: cassettePath, mode: 'replay' })).toThrow('磁带文件不存在');
+  });
+});
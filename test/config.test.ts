@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, getOpenAI, resolveConfig } from '../src';
+
+describe('resolveConfig', () => {
+  let dir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tars-swarm-config-'));
+    configFile = path.join(dir, 'tars-swarm.config.json');
+    fs.writeFileSync(configFile, JSON.stringify({ apiKey: 'sk-file', baseURL: 'https://file.example.com/v1', timeout: 3000, maxRetries: 1 }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('优先级：显式选项 > 环境变量 > 配置文件', () => {
+    const env = { OPENAI_API_KEY: 'sk-env', TARS_SWARM_TIMEOUT: '5000' };
+
+    expect(resolveConfig({ configFile, env: {} })).toEqual({
+      apiKey: 'sk-file', baseURL: 'https://file.example.com/v1', timeout: 3000, maxRetries: 1
+    });
+    expect(resolveConfig({ configFile, env })).toEqual({
+      apiKey: 'sk-env', baseURL: 'https://file.example.com/v1', timeout: 5000, maxRetries: 1
+    });
+    expect(resolveConfig({ configFile, env, apiKey: 'sk-option', maxRetries: 0 })).toEqual({
+      apiKey: 'sk-option', baseURL: 'https://file.example.com/v1', timeout: 5000, maxRetries: 0
+    });
+  });
+
+  it('环境变量指定配置文件', () => {
+    expect(resolveConfig({ env: { TARS_SWARM_CONFIG: configFile } }).apiKey).toBe('sk-file');
+  });
+
+  it('空的环境变量视为未设置', () => {
+    const env = { OPENAI_API_KEY: '', OPENAI_BASE_URL: ' ', OPENAI_API_BASE: 'https://base.example.com/v1', TARS_SWARM_TIMEOUT: '' };
+
+    expect(resolveConfig({ configFile, env })).toEqual({
+      apiKey: 'sk-file', baseURL: 'https://base.example.com/v1', timeout: 3000, maxRetries: 1
+    });
+    expect(getOpenAI({ configFile, env: { OPENAI_API_KEY: '' } }).apiKey).toBe('sk-file');
+  });
+
+  it('数字类型的环境变量不是有限数字时抛出ConfigError', () => {
+    expect(() => resolveConfig({ configFile, env: { TARS_SWARM_TIMEOUT: 'abc' } })).toThrow(ConfigError);
+    expect(() => resolveConfig({ configFile, env: { TARS_SWARM_MAX_RETRIES: 'Infinity' } }))
+      .toThrow('环境变量 TARS_SWARM_MAX_RETRIES 必须是数字: Infinity');
+  });
+
+  it('配置文件中的未知配置项和无效值抛出ConfigError', () => {
+    fs.writeFileSync(configFile, JSON.stringify({ apiKey: 'sk-file', model: 'gpt-4o' }));
+    expect(() => resolveConfig({ configFile, env: {} })).toThrow('未知配置项: model');
+
+    fs.writeFileSync(configFile, JSON.stringify({ timeout: -1 }));
+    expect(() => resolveConfig({ configFile, env: {} })).toThrow('timeout 必须是正数');
+  });
+});
@@ -0,0 +1,110 @@
+import { Agent, Result, SwarmTestHarness } from '../src';
+
+describe('SwarmTestHarness', () => {
+  const createAgents = () => {
+    const supportAgent = new Agent({ name: '技术支持', instructions: '你是技术支持代理。' });
+    const receptionAgent = new Agent({
+      name: '接待',
+      instructions: '你是接待代理。',
+      functions: [
+        function transferToSupport() {
+          return new Result({ value: '正在转接技术支持...', agent: supportAgent, context_variables: { transferred: true } });
+        },
+        function lookupOrder(contextVariables: Record<string, any>, orderId: string) {
+          return `订单 ${orderId} 已发货`;
+        }
+      ]
+    });
+    return { supportAgent, receptionAgent };
+  };
+
+  it('按脚本运行转接并断言结果', async () => {
+    const { receptionAgent } = createAgents();
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ name: 'transferToSupport' }] },
+      { content: '你好，我是技术支持。' }
+    ]);
+
+    const result = await harness.run(receptionAgent, [{ role: 'user', content: '电脑无法开机' }]);
+
+    result
+      .expectToolCalled('transferToSupport')
+      .expectHandoffs(['技术支持'])
+      .expectAgent('技术支持')
+      .expectContext({ transferred: true })
+      .expectStopReason('final_answer')
+      .expectFinalMessage('你好，我是技术支持。')
+      .expectMessageRoles(['user', 'assistant', 'tool', 'assistant'])
+      .expectScriptConsumed();
+  });
+
+  it('流式模式产出与非流式相同的结果和生命周期事件', async () => {
+    const { receptionAgent } = createAgents();
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ name: 'lookupOrder', arguments: { orderId: 'A-1' } }] },
+      { content: '订单已发货。', chunks: ['订单', '已发货。'] }
+    ]);
+
+    const result = await harness.runStream(receptionAgent, [{ role: 'user', content: '查订单 A-1' }]);
+
+    result
+      .expectToolCalled('lookupOrder', { orderId: 'A-1' })
+      .expectFinalMessage('订单已发货。')
+      .expectStopReason('final_answer')
+      .expectStreamEvent('tool_response', event => event.message.content === '订单 A-1 已发货')
+      .expectStreamEvent('content', event => event.content === '已发货。');
+
+    const content = result.events.flatMap(event => (event.type === 'content' ? [event.content] : [])).join('');
+    expect(content).toBe('订单已发货。');
+  });
+
+  it('断言失败时抛出AssertionError', async () => {
+    const { receptionAgent } = createAgents();
+    const harness = new SwarmTestHarness([{ content: '你好' }]);
+
+    const result = await harness.run(receptionAgent, [{ role: 'user', content: '你好' }]);
+
+    expect(() => result.expectToolCalled('transferToSupport')).toThrow('工具 transferToSupport 未被调用');
+    expect(() => result.expectAgent('技术支持')).toThrow('最终Agent不匹配');
+  });
+
+  it('把收到的请求记录在模拟提供商上', async () => {
+    const { receptionAgent } = createAgents();
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ name: 'lookupOrder', arguments: { orderId: 'B-2' } }] },
+      { content: '好的' }
+    ]);
+
+    await harness.run(receptionAgent, [{ role: 'user', content: '查订单 B-2' }]);
+
+    const [, second] = harness.provider.requests;
+    expect(second.messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'tool']);
+    expect(second.messages[3].content).toBe('订单 B-2 已发货');
+  });
+
+  it('工具直接返回Agent时仍回应该工具调用', async () => {
+    const { supportAgent } = createAgents();
+    const agent = new Agent({
+      name: '接待',
+      instructions: '你是接待代理。',
+      functions: [
+        function transferToSupport() {
+          return supportAgent;
+        }
+      ]
+    });
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ id: 'call_transfer', name: 'transferToSupport' }] },
+      { content: '你好，我是技术支持。' }
+    ]);
+
+    const result = await harness.run(agent, [{ role: 'user', content: '电脑无法开机' }]);
+
+    result
+      .expectHandoffs(['技术支持'])
+      .expectAgent('技术支持')
+      .expectMessageRoles(['user', 'assistant', 'tool', 'assistant']);
+    const [, second] = harness.provider.requests;
+    expect(second.messages[3]).toMatchObject({ role: 'tool', tool_call_id: 'call_transfer', content: '已转接到 技术支持' });
+  });
+});
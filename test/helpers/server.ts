@@ -0,0 +1,46 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * 本地假服务器，按请求顺序返回预设的响应体
+ */
+export interface FakeServer {
+  url: string;
+  /** 收到的请求体（已解析的JSON） */
+  requests: any[];
+  close: () => Promise<void>;
+}
+
+/**
+ * 启动本地假服务器，第n个请求返回responses[n]
+ */
+export function startFakeServer(responses: string[], contentType: string): Promise<FakeServer> {
+  const requests: any[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push(body ? JSON.parse(body) : undefined);
+      res.writeHead(200, { 'content-type': contentType });
+      res.end(responses[requests.length - 1] ?? '');
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+/**
+ * 将数据块编码为SSE响应体
+ */
+export function toSSE(chunks: string[]): string {
+  return [...chunks, '[DONE]'].map(chunk => `data: ${chunk}\n\n`).join('');
+}
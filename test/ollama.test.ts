@@ -0,0 +1,54 @@
+import { Agent, Swarm } from '../src';
+import { createOllamaProvider, fromOllamaResponse } from '../src/providers';
+import { startFakeServer } from './helpers/server';
+
+describe('Ollama提供商', () => {
+  const toolCallLine = (amount: number) => JSON.stringify({
+    model: 'qwen',
+    message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'refund', arguments: { amount } } }] },
+    done: false
+  });
+  const doneLine = JSON.stringify({ model: 'qwen', message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop' });
+
+  it('服务端不提供ID时，每次响应生成的工具调用ID互不相同', () => {
+    const response = { model: 'qwen', message: { role: 'assistant', tool_calls: [{ function: { name: 'a', arguments: {} } }, { function: { name: 'b', arguments: {} } }] } };
+
+    const ids = [...fromOllamaResponse(response).choices[0].message.tool_calls!, ...fromOllamaResponse(response).choices[0].message.tool_calls!]
+      .map(toolCall => toolCall.id);
+
+    expect(new Set(ids).size).toBe(4);
+  });
+
+  it('流式运行中各回合的工具调用ID不重复', async () => {
+    const server = await startFakeServer([
+      [toolCallLine(5), doneLine].join('\n'),
+      [toolCallLine(6), doneLine].join('\n'),
+      [JSON.stringify({ model: 'qwen', message: { role: 'assistant', content: '完成' }, done: true, done_reason: 'stop' })].join('\n')
+    ], 'application/x-ndjson');
+
+    try {
+      const agent = new Agent({
+        name: '客服',
+        instructions: '你是客服。',
+        functions: [function refund(contextVariables: Record<string, any>, amount: number) { return `已退款 ${amount}`; }]
+      });
+      const swarm = new Swarm({ modelProvider: createOllamaProvider({ baseURL: server.url }) });
+
+      const events = [];
+      for await (const event of swarm.runStream(agent, [{ role: 'user', content: '退款' }])) {
+        events.push(event);
+      }
+
+      const complete = events.find(event => event.type === 'complete');
+      if (complete?.type !== 'complete') {
+        throw new Error('运行未完成');
+      }
+      expect(complete.stopReason).toBe('final_answer');
+      const ids = complete.messages.flatMap(message => message.tool_calls ?? []).map(toolCall => toolCall.id);
+      expect(ids).toHaveLength(2);
+      expect(ids[0]).not.toBe(ids[1]);
+    } finally {
+      await server.close();
+    }
+  });
+});
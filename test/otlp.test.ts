@@ -0,0 +1,156 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileTraceExporter, OTLPExportRequest, OTLPKeyValue, OTLPTraceExporter, RunTrace, toOTLPRequest, toOTLPSpans, toOTLPTraceId } from '../src';
+import { startFakeServer } from './helpers/server';
+
+const runId = '123e4567-e89b-12d3-a456-426614174000';
+
+const trace: RunTrace = {
+  runId,
+  traceId: runId,
+  agent: '助手',
+  startTime: 1700000000000,
+  endTime: 1700000000500,
+  stopReason: 'final_answer',
+  events: [
+    { timestamp: 1700000000010, type: 'agent_start', data: { agent: '助手' }, runId, spanId: 'a000000000000002' },
+    { timestamp: 1700000000020, type: 'guardrail_check', data: { type: 'input_validation', success: true, detail: { rules: 2 } }, runId, spanId: 'a000000000000002' },
+    { timestamp: 1700000000030, type: 'model_call', data: { model: 'gpt-4o' }, runId, spanId: 'a000000000000003' },
+    { timestamp: 1700000000040, type: 'handoff', data: { from: '助手', to: '专家' }, runId }
+  ],
+  spans: [
+    { id: 'a000000000000001', parentId: null, runId, kind: 'run', name: 'run', startTime: 1700000000000, endTime: 1700000000500, duration: 500, status: 'ok', attributes: { stopReason: 'final_answer' } },
+    { id: 'a000000000000002', parentId: 'a000000000000001', runId, kind: 'agent', name: '助手', startTime: 1700000000001, endTime: 1700000000490, duration: 489, status: 'ok', attributes: { agent: '助手' } },
+    {
+      id: 'a000000000000003', parentId: 'a000000000000002', runId, kind: 'model_call', name: 'gpt-4o', startTime: 1700000000030, endTime: 1700000000300,
+      duration: 270, status: 'ok', attributes: { model: 'gpt-4o', provider: 'openai', promptTokens: 12, completionTokens: 3, cost: 0.25 }
+    },
+    {
+      id: 'a000000000000004', parentId: 'a000000000000002', runId, kind: 'tool_call', name: 'lookup', startTime: 1700000000310,
+      status: 'error', error: '超时', attributes: { tool: 'lookup', tool_call_id: 'call_1', parallel: false }
+    }
+  ]
+};
+
+const attributes = (values: OTLPKeyValue[]) => Object.fromEntries(values.map(({ key, value }) => [key, value]));
+
+describe('OTLP映射', () => {
+  it('UUID运行ID去掉连字符作为traceId，其他ID取哈希', () => {
+    expect(toOTLPTraceId(runId)).toBe('123e4567e89b12d3a456426614174000');
+    expect(toOTLPTraceId('request-42')).toMatch(/^[0-9a-f]{32}$/);
+    expect(toOTLPTraceId('request-42')).toBe(toOTLPTraceId('request-42'));
+  });
+
+  it('跨度按GenAI语义约定命名，保留父跨度ID和纳秒时间戳', () => {
+    const spans = toOTLPSpans(trace);
+
+    expect(spans.map(span => [span.name, span.spanId, span.parentSpanId, span.kind])).toEqual([
+      ['invoke_workflow', 'a000000000000001', undefined, 1],
+      ['invoke_agent 助手', 'a000000000000002', 'a000000000000001', 1],
+      ['chat gpt-4o', 'a000000000000003', 'a000000000000002', 3],
+      ['execute_tool lookup', 'a000000000000004', 'a000000000000002', 1]
+    ]);
+    expect(spans.every(span => span.traceId === '123e4567e89b12d3a456426614174000')).toBe(true);
+    expect(spans[2].startTimeUnixNano).toBe('1700000000030000000');
+    expect(spans[2].endTimeUnixNano).toBe('1700000000300000000');
+    // 未结束的跨度使用运行的结束时间
+    expect(spans[3].endTimeUnixNano).toBe('1700000000500000000');
+    expect(spans.map(span => span.status)).toEqual([{ code: 1 }, { code: 1 }, { code: 1 }, { code: 2, message: '超时' }]);
+  });
+
+  it('跨度属性包含GenAI属性和 tars_swarm.* 属性', () => {
+    const [run, , model, tool] = toOTLPSpans(trace).map(span => attributes(span.attributes));
+
+    expect(run['tars_swarm.stop_reason']).toEqual({ stringValue: 'final_answer' });
+    expect(model).toMatchObject({
+      'gen_ai.operation.name': { stringValue: 'chat' },
+      'gen_ai.system': { stringValue: 'openai' },
+      'gen_ai.request.model': { stringValue: 'gpt-4o' },
+      'gen_ai.usage.input_tokens': { intValue: '12' },
+      'gen_ai.usage.output_tokens': { intValue: '3' },
+      'tars_swarm.cost': { doubleValue: 0.25 },
+      'tars_swarm.run.id': { stringValue: runId }
+    });
+    expect(tool).toMatchObject({
+      'gen_ai.tool.name': { stringValue: 'lookup' },
+      'gen_ai.tool.call.id': { stringValue: 'call_1' },
+      'tars_swarm.parallel': { boolValue: false },
+      'error.type': { stringValue: '超时' }
+    });
+  });
+
+  it('扁平事件作为所在跨度的事件导出，已由跨度表达的事件不重复导出', () => {
+    const [run, agent, model] = toOTLPSpans(trace);
+
+    expect(agent.events).toEqual([{
+      timeUnixNano: '1700000000020000000',
+      name: 'guardrail_check.input_validation',
+      attributes: [
+        { key: 'type', value: { stringValue: 'input_validation' } },
+        { key: 'success', value: { boolValue: true } },
+        { key: 'detail.rules', value: { intValue: '2' } }
+      ]
+    }]);
+    expect(model.events).toEqual([]);
+    // 没有spanId的事件归属run跨度
+    expect(run.events.map(event => event.name)).toEqual(['handoff']);
+  });
+
+  it('导出请求包含资源属性和作用域', () => {
+    const request = toOTLPRequest([trace], { serviceName: 'support-bot', resourceAttributes: { 'deployment.environment': 'test' } });
+
+    const [resourceSpans] = request.resourceSpans;
+    expect(attributes(resourceSpans.resource.attributes)).toEqual({
+      'service.name': { stringValue: 'support-bot' },
+      'telemetry.sdk.name': { stringValue: 'tars-swarm' },
+      'deployment.environment': { stringValue: 'test' }
+    });
+    expect(resourceSpans.scopeSpans[0].scope).toEqual({ name: 'tars-swarm' });
+    expect(resourceSpans.scopeSpans[0].spans).toHaveLength(4);
+  });
+});
+
+describe('追踪导出器', () => {
+  it('OTLPTraceExporter以JSON POST到Collector', async () => {
+    const server = await startFakeServer(['{}'], 'application/json');
+
+    try {
+      const exporter = new OTLPTraceExporter({ endpoint: `${server.url}/v1/traces`, serviceName: 'support-bot' });
+      await exporter.export(trace);
+
+      const request = server.requests[0] as OTLPExportRequest;
+      expect(request.resourceSpans[0].scopeSpans[0].spans.map(span => span.spanId)).toEqual(trace.spans.map(span => span.id));
+      expect(attributes(request.resourceSpans[0].resource.attributes)['service.name']).toEqual({ stringValue: 'support-bot' });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('OTLPTraceExporter连接失败时抛出带地址的错误', async () => {
+    const exporter = new OTLPTraceExporter({ endpoint: 'http://127.0.0.1:1/v1/traces', timeout: 1000 });
+
+    await expect(exporter.export(trace)).rejects.toThrow('OTLP导出失败 (http://127.0.0.1:1/v1/traces)');
+  });
+
+  it('FileTraceExporter每次运行追加一行', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tars-swarm-otlp-'));
+
+    try {
+      const otlpPath = path.join(dir, 'nested', 'otlp.jsonl');
+      const runPath = path.join(dir, 'runs.jsonl');
+      const otlp = new FileTraceExporter({ path: otlpPath });
+      const runs = new FileTraceExporter({ path: runPath, format: 'run' });
+      otlp.export(trace);
+      otlp.export(trace);
+      runs.export(trace);
+
+      const otlpLines = fs.readFileSync(otlpPath, 'utf8').trim().split('\n');
+      expect(otlpLines).toHaveLength(2);
+      expect(JSON.parse(otlpLines[0])).toEqual(toOTLPRequest([trace]));
+      expect(JSON.parse(fs.readFileSync(runPath, 'utf8'))).toEqual(trace);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
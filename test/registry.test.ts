@@ -0,0 +1,82 @@
+import { ChatCompletionChunk, ChatCompletionRequest, ModelProvider, RequestOptions } from '../src';
+import { ProviderRegistry } from '../src/providers';
+import { MockModelProvider } from '../src/testing';
+
+/**
+ * 在信号触发前一直挂起的提供商，记录收到的信号和流是否被关闭
+ */
+function createHangingProvider(id: string) {
+  const state = { signals: [] as Array<AbortSignal | undefined>, streamClosed: false };
+  const hang = (signal?: AbortSignal) => new Promise<never>((_, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+
+  const provider: ModelProvider = {
+    id,
+    async createChatCompletion(request: ChatCompletionRequest, options: RequestOptions = {}) {
+      state.signals.push(options.signal);
+      return hang(options.signal);
+    },
+    async *createChatCompletionStream(request: ChatCompletionRequest, options: RequestOptions = {}): AsyncGenerator<ChatCompletionChunk, void, unknown> {
+      state.signals.push(options.signal);
+      try {
+        yield await hang(options.signal);
+      } finally {
+        state.streamClosed = true;
+      }
+    }
+  };
+  return { provider, state };
+}
+
+describe('ProviderRegistry 超时', () => {
+  const request: ChatCompletionRequest = { model: 'slow:model', messages: [{ role: 'user', content: '你好' }] };
+
+  it('超时后取消进行中的请求并切换到备用提供商', async () => {
+    const slow = createHangingProvider('slow');
+    const registry = new ProviderRegistry({
+      providers: { slow: slow.provider, backup: new MockModelProvider([{ content: '备用回复' }]) },
+      fallbacks: { slow: ['backup'] },
+      timeout: 20
+    });
+
+    const response = await registry.createChatCompletion(request);
+
+    expect(response.provider).toBe('backup');
+    expect(response.choices[0].message.content).toBe('备用回复');
+    expect(slow.state.signals[0]?.aborted).toBe(true);
+  });
+
+  it('流式调用在首个数据块之前超时时关闭流', async () => {
+    const slow = createHangingProvider('slow');
+    const registry = new ProviderRegistry({
+      providers: { slow: slow.provider, backup: new MockModelProvider([{ content: '备用回复' }]) },
+      fallbacks: { slow: ['backup'] },
+      timeout: 20
+    });
+
+    const chunks: ChatCompletionChunk[] = [];
+    for await (const chunk of registry.createChatCompletionStream(request)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map(chunk => chunk.choices[0]?.delta?.content ?? '').join('')).toBe('备用回复');
+    expect(slow.state.signals[0]?.aborted).toBe(true);
+    expect(slow.state.streamClosed).toBe(true);
+  });
+
+  it('调用方的取消信号同样传给每次尝试', async () => {
+    const slow = createHangingProvider('slow');
+    const registry = new ProviderRegistry({ providers: { slow: slow.provider }, timeout: 10000 });
+    const controller = new AbortController();
+
+    const call = registry.createChatCompletion(request, { signal: controller.signal });
+    controller.abort(new Error('用户取消'));
+
+    await expect(call).rejects.toThrow('用户取消');
+    expect(slow.state.signals[0]?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+import { ChatCompletionRequest, ModelProvider } from '../src';
+import { ProviderError } from '../src/providers/base';
+import { ProviderRegistry } from '../src/providers';
+import { getRetryDelay, shouldRetry } from '../src/providers/retry';
+
+describe('重试策略', () => {
+  const rateLimited = (retryAfter: number) => new ProviderError('请求过于频繁', { provider: 'openai', status: 429, retryAfter });
+
+  it('按Retry-After等待完整时长', () => {
+    expect(getRetryDelay({ maxDelay: 1000 }, 1, rateLimited(200))).toBe(200);
+    expect(getRetryDelay({ maxDelay: 1000 }, 1, rateLimited(1000))).toBe(1000);
+  });
+
+  it('Retry-After超过maxDelay时不再重试', () => {
+    expect(shouldRetry({ maxDelay: 1000 }, rateLimited(3600000), 1)).toBe(false);
+    expect(shouldRetry({}, rateLimited(60000), 1)).toBe(false);
+    expect(shouldRetry({ maxDelay: 1000 }, rateLimited(500), 1)).toBe(true);
+    expect(shouldRetry({ maxDelay: 1000, respectRetryAfter: false }, rateLimited(3600000), 1)).toBe(true);
+  });
+
+  it('respectRetryAfter为false时使用指数退避', () => {
+    const delay = getRetryDelay({ respectRetryAfter: false, initialDelay: 100, jitter: 0 }, 3, rateLimited(5000));
+    expect(delay).toBe(400);
+  });
+
+  it('注册表不提前重试，直接抛出错误', async () => {
+    let calls = 0;
+    const provider: ModelProvider = {
+      id: 'limited',
+      async createChatCompletion() {
+        calls++;
+        throw rateLimited(3600000);
+      },
+      async *createChatCompletionStream() {
+        throw rateLimited(3600000);
+      }
+    };
+    const attempts: Array<number | undefined> = [];
+    const registry = new ProviderRegistry({ providers: { limited: provider }, retry: { maxAttempts: 3, maxDelay: 1000 } });
+    const request: ChatCompletionRequest = { model: 'limited:model', messages: [{ role: 'user', content: '你好' }] };
+
+    await expect(registry.createChatCompletion(request, { onAttempt: attempt => attempts.push(attempt.retryIn) }))
+      .rejects.toMatchObject({ status: 429, retryAfter: 3600000 });
+    expect(calls).toBe(1);
+    expect(attempts).toEqual([undefined]);
+  });
+});
@@ -0,0 +1,52 @@
+import { Agent, BuiltInRules, SafetyViolationError, SwarmTestHarness } from '../src';
+
+describe('流式输出的安全检查', () => {
+  const script = () => [{ content: 'mail me at bob@example.com', chunks: ['mail me at ', 'bob@example', '.com'] }];
+
+  it('modify规则改写后的内容才会流给调用方', async () => {
+    const agent = new Agent({
+      name: '助手',
+      instructions: '你是助手。',
+      guardrails: { safetyChecks: [BuiltInRules.safety.redactPII()] }
+    });
+    const harness = new SwarmTestHarness(script());
+
+    const result = await harness.runStream(agent, [{ role: 'user', content: '联系方式' }]);
+
+    const streamed = result.events.flatMap(event => (event.type === 'content' ? [event.content] : [])).join('');
+    expect(streamed).toBe('mail me at [EMAIL]');
+    result.expectFinalMessage('mail me at [EMAIL]');
+  });
+
+  it('block规则阻止时不会有内容流出', async () => {
+    const agent = new Agent({
+      name: '助手',
+      instructions: '你是助手。',
+      guardrails: { safetyChecks: [BuiltInRules.safety.blockPII()] }
+    });
+    const harness = new SwarmTestHarness(script());
+    const streamed: string[] = [];
+
+    await expect((async () => {
+      for await (const event of harness.swarm.runStream(agent, [{ role: 'user', content: '联系方式' }])) {
+        if (event.type === 'content') {
+          streamed.push(event.content);
+        }
+      }
+    })()).rejects.toBeInstanceOf(SafetyViolationError);
+    expect(streamed).toEqual([]);
+  });
+
+  it('只记录的规则不缓冲流式内容', async () => {
+    const agent = new Agent({
+      name: '助手',
+      instructions: '你是助手。',
+      guardrails: { safetyChecks: [{ ...BuiltInRules.safety.redactPII(), action: 'log' }] }
+    });
+    const harness = new SwarmTestHarness(script());
+
+    const result = await harness.runStream(agent, [{ role: 'user', content: '联系方式' }]);
+
+    expect(result.events.filter(event => event.type === 'content')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,94 @@
+import { Agent, Swarm, StreamEvent } from '../src';
+import { createOpenAICompatibleProvider, createOpenAIProvider } from '../src/providers';
+import { startFakeServer, toSSE } from './helpers/server';
+
+const delta = (value: Record<string, any>, extra: Record<string, any> = {}) =>
+  JSON.stringify({ id: 'c', model: 'test', choices: [{ index: 0, delta: value }], ...extra });
+
+const providers = [
+  ['createOpenAIProvider', (baseURL: string) => createOpenAIProvider({ apiKey: 'test-key', baseURL, maxRetries: 0 })],
+  ['createOpenAICompatibleProvider', (baseURL: string) => createOpenAICompatibleProvider({ baseURL })]
+] as const;
+
+describe.each(providers)('%s 流式响应的增量拼接', (name, createProvider) => {
+  it('拼接内容增量和分段的工具调用参数，并读取末尾的用量块', async () => {
+    const server = await startFakeServer([
+      toSSE([
+        delta({ content: '查询' }),
+        delta({ content: '中' }),
+        delta({ tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'getWeather', arguments: '{"ci' } }] }),
+        delta({ tool_calls: [{ index: 0, function: { arguments: 'ty":"北京"}' } }] }),
+        delta({ tool_calls: [{ index: 1, id: 'call_b', type: 'function', function: { name: 'getTime', arguments: '{}' } }] }),
+        JSON.stringify({ id: 'c', model: 'test', choices: [], usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 } })
+      ]),
+      toSSE([delta({ content: '北京' }), delta({ content: '晴，' }), delta({ content: '现在12点。' })])
+    ], 'text/event-stream');
+
+    try {
+      const calls: Array<[string, any]> = [];
+      const agent = new Agent({
+        name: '助手',
+        instructions: '你是助手。',
+        functions: [
+          function getWeather(contextVariables: Record<string, any>, city: string) {
+            calls.push(['getWeather', city]);
+            return '晴';
+          },
+          function getTime() {
+            calls.push(['getTime', null]);
+            return '12:00';
+          }
+        ]
+      });
+      const swarm = new Swarm({ modelProvider: createProvider(`${server.url}/v1`) });
+
+      const events: StreamEvent[] = [];
+      for await (const event of swarm.runStream(agent, [{ role: 'user', content: '北京天气和时间' }])) {
+        events.push(event);
+      }
+
+      const complete = events.find(event => event.type === 'complete') as Extract<StreamEvent, { type: 'complete' }>;
+      expect(complete.stopReason).toBe('final_answer');
+      expect(calls).toEqual([['getWeather', '北京'], ['getTime', null]]);
+
+      const firstReply = complete.messages[1];
+      expect(firstReply.content).toBe('查询中');
+      expect(firstReply.tool_calls).toEqual([
+        { id: 'call_a', type: 'function', function: { name: 'getWeather', arguments: '{"city":"北京"}' } },
+        { id: 'call_b', type: 'function', function: { name: 'getTime', arguments: '{}' } }
+      ]);
+      expect(complete.messages[complete.messages.length - 1].content).toBe('北京晴，现在12点。');
+      expect(events.filter(event => event.type === 'usage')).toEqual([
+        { type: 'usage', usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 } }
+      ]);
+      expect(complete.usage.totalTokens).toBe(20);
+
+      expect(server.requests[0].stream).toBe(true);
+      expect(server.requests[0].stream_options).toEqual({ include_usage: true });
+      expect(server.requests[1].messages.filter((message: any) => message.role === 'tool').map((message: any) => message.tool_call_id))
+        .toEqual(['call_a', 'call_b']);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('createOpenAIProvider', () => {
+  it('逐块产出内容增量，includeUsage为false时不请求用量', async () => {
+    const server = await startFakeServer([toSSE([delta({ content: '你' }), delta({ content: '好' })])], 'text/event-stream');
+
+    try {
+      const provider = createOpenAIProvider({ apiKey: 'test-key', baseURL: `${server.url}/v1`, maxRetries: 0, includeUsage: false });
+      const contents: string[] = [];
+      for await (const chunk of provider.createChatCompletionStream({ model: 'test', messages: [{ role: 'user', content: '你好' }] })) {
+        contents.push(chunk.choices[0]?.delta?.content ?? '');
+      }
+
+      expect(contents).toEqual(['你', '好']);
+      expect(server.requests[0].stream).toBe(true);
+      expect(server.requests[0].stream_options).toBeUndefined();
+    } finally {
+      await server.close();
+    }
+  });
+});
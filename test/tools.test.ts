@@ -0,0 +1,108 @@
+import { Agent, SwarmTestHarness, defineTool, validateSchema } from '../src';
+
+describe('工具参数验证', () => {
+  const createAgent = (received: Record<string, any>[]) => new Agent({
+    name: '客服',
+    instructions: '你是客服。',
+    functions: [
+      defineTool({
+        name: 'refund',
+        parameters: {
+          type: 'object',
+          properties: {
+            orderId: { type: 'string' },
+            amount: { type: 'number', minimum: 0 },
+            urgent: { type: 'boolean' },
+            currency: { type: 'string', default: 'CNY' }
+          },
+          required: ['orderId', 'amount'],
+          additionalProperties: false
+        },
+        handler: args => {
+          received.push(args);
+          return '已退款';
+        }
+      })
+    ]
+  });
+  const messages = [{ role: 'user' as const, content: '退款' }];
+
+  it('字符串参数按Schema转换类型并填充默认值', async () => {
+    const received: Record<string, any>[] = [];
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ name: 'refund', arguments: '{"orderId":1001,"amount":"42.5","urgent":"true"}' }] },
+      { content: '已为您退款' }
+    ]);
+
+    const result = await harness.run(createAgent(received), messages);
+
+    expect(received).toEqual([{ orderId: '1001', amount: 42.5, urgent: true, currency: 'CNY' }]);
+    result.expectMessageRoles(['user', 'assistant', 'tool', 'assistant']);
+    const validation = (result.response.trace ?? []).find(
+      event => event.type === 'guardrail_check' && event.data.type === 'argument_validation'
+    );
+    expect(validation?.data).toMatchObject({ tool: 'refund', success: true, errors: [] });
+  });
+
+  it('验证失败时不执行工具，并把错误信息作为工具结果返回给模型', async () => {
+    const received: Record<string, any>[] = [];
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ id: 'call_1', name: 'refund', arguments: '{"amount":"abc","reason":"坏了"}' }] },
+      {
+        content: '请提供订单号',
+        expectRequest: request => {
+          expect(request.messages[request.messages.length - 1]).toMatchObject({
+            role: 'tool',
+            tool_call_id: 'call_1',
+            content: '工具 refund 参数验证失败: $.orderId: 缺少必需参数; $.amount: 应为 number 类型，实际为 string; ' +
+              '$.reason: 不允许的参数。请修正参数后重试。'
+          });
+        }
+      }
+    ]);
+
+    const result = await harness.run(createAgent(received), messages);
+
+    expect(received).toEqual([]);
+    result.expectFinalMessage('请提供订单号').expectScriptConsumed();
+    const validation = (result.response.trace ?? []).find(
+      event => event.type === 'guardrail_check' && event.data.type === 'argument_validation'
+    );
+    expect(validation?.data).toMatchObject({ tool: 'refund', success: false });
+    expect(validation?.data.errors).toHaveLength(3);
+  });
+
+  it('参数不是有效JSON时返回解析错误', async () => {
+    const received: Record<string, any>[] = [];
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ name: 'refund', arguments: '{"orderId":' }] },
+      { content: '参数有误' }
+    ]);
+
+    const result = await harness.run(createAgent(received), messages);
+
+    expect(received).toEqual([]);
+    const toolMessage = result.response.messages.find(message => message.role === 'tool');
+    expect(toolMessage?.content).toMatch(/^工具 refund 参数验证失败: 参数不是有效的JSON: .+。请修正参数后重试。$/);
+  });
+
+  it('validateSchema转换嵌套数组和对象并报告路径', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        ids: { type: 'array' as const, items: { type: 'integer' as const } },
+        filter: { type: 'object' as const, properties: { active: { type: 'boolean' as const } } }
+      }
+    };
+
+    expect(validateSchema(schema, { ids: '["1", 2]', filter: '{"active":"false"}' })).toEqual({
+      valid: true,
+      errors: [],
+      value: { ids: [1, 2], filter: { active: false } }
+    });
+    expect(validateSchema(schema, { ids: ['1.5', 'x'] }).errors).toEqual([
+      '$.ids[0]: 应为 integer 类型，实际为 string',
+      '$.ids[1]: 应为 integer 类型，实际为 string'
+    ]);
+  });
+});
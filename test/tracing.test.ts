@@ -0,0 +1,190 @@
+import { Agent, BuiltInRules, MockModelProvider, RunTrace, Swarm, SwarmTestHarness, defineTool, generateTraceReport } from '../src';
+
+describe('模型调用追踪', () => {
+  const createAgent = () => new Agent({
+    name: '助手',
+    instructions: '你是助手。',
+    functions: [
+      function lookupOrder(contextVariables: Record<string, any>, orderId: string) {
+        return `订单 ${orderId} 已发货`;
+      }
+    ],
+    guardrails: { safetyChecks: [BuiltInRules.safety.redactPII()] }
+  });
+
+  it('model_call事件只记录相对上一次调用新增的请求消息和模型回复', async () => {
+    const longQuestion = '请帮我查询订单 A-1 的物流状态，'.repeat(10);
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ id: 'call_1', name: 'lookupOrder', arguments: { orderId: 'A-1' } }] },
+      { content: '已发货，有问题请联系 bob@example.com' }
+    ]);
+
+    const result = await harness.run(createAgent(), [{ role: 'user', content: longQuestion }]);
+
+    const modelCalls = (result.response.trace ?? []).filter(event => event.type === 'model_call');
+    expect(modelCalls).toHaveLength(2);
+
+    const [first, second] = modelCalls.map(event => event.data);
+    expect(first).toMatchObject({ system: '你是助手。', messageOffset: 0, messages: [{ role: 'user', content: longQuestion }] });
+    expect(first.response.tool_calls).toEqual([
+      expect.objectContaining({ id: 'call_1', function: { name: 'lookupOrder', arguments: '{"orderId":"A-1"}' } })
+    ]);
+    expect(second).not.toHaveProperty('system');
+    expect(second.messageOffset).toBe(1);
+    expect(second.messages.map((message: { role: string }) => message.role)).toEqual(['assistant', 'tool']);
+    expect(second.messages[1]).toMatchObject({ tool_call_id: 'call_1', content: '订单 A-1 已发货' });
+    // 按messageOffset拼接上一次的请求即可还原完整请求
+    const rebuilt = [{ role: 'system', content: first.system }, ...first.messages.slice(0, second.messageOffset), ...second.messages];
+    expect(rebuilt).toEqual(harness.provider.requests[1].messages);
+    // 记录的是安全检查改写后的回复
+    expect(second.response.content).toBe('已发货，有问题请联系 [EMAIL]');
+    expect(JSON.stringify(result.response.trace)).not.toContain('bob@example.com');
+  });
+
+  it('HTML报告展示请求消息和模型回复', async () => {
+    const harness = new SwarmTestHarness([{ content: '<b>你好</b>' }]);
+
+    const result = await harness.run(createAgent(), [{ role: 'user', content: '打个招呼' }]);
+    const html = generateTraceReport(result.response.trace ?? []);
+
+    expect(html).toContain('Request · 2 message(s), 2 new');
+    expect(html).toContain('你是助手。');
+    expect(html).toContain('打个招呼');
+    expect(html).toContain('&lt;b&gt;你好&lt;/b&gt;');
+    expect(html).not.toContain('<b>你好</b>');
+  });
+});
+
+describe('运行隔离', () => {
+  const lookup = (log: string[]) => function lookupOrder(contextVariables: Record<string, any>, orderId: string) {
+    log.push(orderId);
+    return `订单 ${orderId} 已发货`;
+  };
+
+  it('同一Swarm上并发的运行各自拥有独立的追踪和接收器投递', async () => {
+    const delivered: RunTrace[] = [];
+    const log: string[] = [];
+    const swarm = new Swarm({
+      providers: {
+        a: new MockModelProvider([{ tool_calls: [{ name: 'lookupOrder', arguments: { orderId: 'A' } }], delay: 20 }, { content: 'A完成', delay: 5 }]),
+        b: new MockModelProvider([{ tool_calls: [{ name: 'lookupOrder', arguments: { orderId: 'B' } }], delay: 5 }, { content: 'B完成', delay: 20 }])
+      },
+      traceSinks: [{ export: trace => { delivered.push(trace); } }]
+    });
+    const agentA = new Agent({ name: 'A', model: 'a:test', instructions: '你是A。', functions: [lookup(log)] });
+    const agentB = new Agent({ name: 'B', model: 'b:test', instructions: '你是B。', functions: [lookup(log)] });
+
+    const [a, b] = await Promise.all([
+      swarm.run(agentA, [{ role: 'user', content: '查A' }], { runId: 'run-a' }),
+      swarm.run(agentB, [{ role: 'user', content: '查B' }], { runId: 'run-b' })
+    ]);
+
+    expect(log.sort()).toEqual(['A', 'B']);
+    expect(a.messages[a.messages.length - 1].content).toBe('A完成');
+    expect(b.messages[b.messages.length - 1].content).toBe('B完成');
+    for (const [response, agent] of [[a, 'A'], [b, 'B']] as const) {
+      expect(response.trace?.every(event => event.runId === response.runId)).toBe(true);
+      const functionReturns = response.trace?.filter(event => event.type === 'function_return');
+      expect(functionReturns?.map(event => event.data.result)).toEqual([`订单 ${agent} 已发货`]);
+    }
+
+    expect(delivered.map(trace => trace.runId).sort()).toEqual(['run-a', 'run-b']);
+    for (const trace of delivered) {
+      expect(trace.events.every(event => event.runId === trace.runId)).toBe(true);
+      expect(new Set(trace.spans.map(span => span.runId))).toEqual(new Set([trace.runId]));
+      expect(trace.spans.filter(span => span.kind === 'agent').map(span => span.name)).toEqual([trace.agent]);
+    }
+  });
+
+  it('恢复暂停的运行沿用原运行ID', async () => {
+    const delivered: RunTrace[] = [];
+    const agent = new Agent({
+      name: '客服',
+      instructions: '你是客服。',
+      functions: [
+        defineTool({
+          name: 'refund',
+          parameters: { type: 'object', properties: {} },
+          requiresApproval: true,
+          handler: () => '已退款'
+        })
+      ]
+    });
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ id: 'call_0', name: 'refund' }] },
+      { tool_calls: [{ id: 'call_1', name: 'refund' }] },
+      { content: '已处理' }
+    ], {
+      traceSinks: [{ export: trace => { delivered.push(trace); } }]
+    });
+
+    const paused = await harness.run(agent, [{ role: 'user', content: '退款' }]);
+    const { runId } = paused.response;
+    const resumed = await harness.swarm.resume(paused.response, { call_0: { action: 'approve' } });
+    let streamed: string | undefined;
+    for await (const event of harness.swarm.resumeStream(resumed, { call_1: { action: 'approve' } })) {
+      if (event.type === 'complete') {
+        streamed = event.runId;
+      }
+    }
+
+    expect(resumed.runId).toBe(runId);
+    expect(resumed.trace?.every(event => event.runId === runId)).toBe(true);
+    expect(streamed).toBe(runId);
+    expect(delivered.map(trace => trace.runId)).toEqual([runId, runId, runId]);
+  });
+});
+
+describe('跨度层级', () => {
+  it('run → agent → turn → model_call / tool_call，工具内的子运行挂在工具调用跨度之下', async () => {
+    const delivered: RunTrace[] = [];
+    const researcher = new Agent({ name: '研究员', instructions: '你是研究员。' });
+    let subRunId: string | undefined;
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ id: 'call_1', name: 'research', arguments: { topic: '物流' } }] },
+      { content: '研究结果' },
+      { content: '已整理' }
+    ], {
+      traceSinks: [{ export: trace => { delivered.push(trace); } }]
+    });
+    const agent = new Agent({
+      name: '主管',
+      instructions: '你是主管。',
+      functions: [
+        defineTool({
+          name: 'research',
+          parameters: { type: 'object', properties: { topic: { type: 'string' } }, required: ['topic'] },
+          handler: async (args, context, { span }) => {
+            const sub = await harness.swarm.run(researcher, [{ role: 'user', content: args.topic }], { parentSpan: span });
+            subRunId = sub.runId;
+            return sub.messages[sub.messages.length - 1].content ?? '';
+          }
+        })
+      ]
+    });
+
+    const result = await harness.run(agent, [{ role: 'user', content: '研究物流' }]);
+
+    const spans = result.response.spans ?? [];
+    const byId = new Map(spans.map(span => [span.id, span]));
+    const parentKind = (kind: string) => spans
+      .filter(span => span.kind === kind)
+      .map(span => byId.get(span.parentId ?? '')?.kind);
+    expect(spans.filter(span => span.kind === 'run').map(span => span.parentId)).toEqual([null]);
+    expect(parentKind('agent')).toEqual(['run']);
+    expect(parentKind('turn')).toEqual(['agent', 'agent']);
+    expect(parentKind('model_call')).toEqual(['turn', 'turn']);
+    expect(parentKind('tool_call')).toEqual(['turn']);
+    const toolSpan = spans.find(span => span.kind === 'tool_call');
+    expect(byId.get(toolSpan?.parentId ?? '')?.name).toBe('turn 1');
+
+    const parentTrace = delivered.find(trace => trace.runId === result.response.runId);
+    const subTrace = delivered.find(trace => trace.runId === subRunId);
+    const subRunSpan = subTrace?.spans.find(span => span.kind === 'run');
+    expect(subRunSpan?.parentId).toBe(toolSpan?.id);
+    expect(subRunSpan?.attributes.parentRunId).toBe(result.response.runId);
+    expect(subTrace?.traceId).toBe(parentTrace?.traceId);
+    expect(subTrace?.traceId).toBe(result.response.runId);
+    expect(subTrace?.spans.every(span => span.runId === subRunId)).toBe(true);
+  });
+});
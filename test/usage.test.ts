@@ -0,0 +1,110 @@
+import { Agent, MockModelProvider, Result, Swarm, StreamEvent, SwarmTestHarness, UsageTracker, calculateCost, findModelPrice } from '../src';
+
+const usage = (prompt: number, completion: number) => ({ prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion });
+
+describe('用量统计', () => {
+  const pricing = { 'gpt-4o': { input: 2.5, output: 10 }, 'gpt-4o-mini': { input: 0.15, output: 0.6 } };
+
+  it('价格表按精确匹配和最长前缀匹配', () => {
+    expect(findModelPrice(pricing, 'gpt-4o-mini')).toEqual(pricing['gpt-4o-mini']);
+    expect(findModelPrice(pricing, 'gpt-4o-mini-2024-07-18')).toEqual(pricing['gpt-4o-mini']);
+    expect(findModelPrice(pricing, 'gpt-4o-2024-08-06')).toEqual(pricing['gpt-4o']);
+    expect(findModelPrice(pricing, 'claude')).toBeUndefined();
+    expect(calculateCost(usage(1_000_000, 100_000), pricing['gpt-4o'])).toBeCloseTo(3.5);
+  });
+
+  it('UsageTracker合并同一轮的多次调用并按Agent、模型和轮次汇总', () => {
+    const tracker = new UsageTracker(pricing);
+    tracker.record('接待', 1, 'gpt-4o', usage(100, 10));
+    tracker.record('接待', 1, 'gpt-4o', usage(50, 5));
+    tracker.record('技术支持', 2, 'openai:gpt-4o-mini', usage(200, 20), 'gpt-4o-mini');
+    tracker.record('技术支持', 3, 'unknown-model', usage(10, 1));
+
+    const total = tracker.getUsage();
+    expect(total).toMatchObject({ promptTokens: 360, completionTokens: 36, totalTokens: 396, calls: 4 });
+    expect(total.byTurn.map(turn => [turn.turn, turn.agent, turn.calls, turn.totalTokens])).toEqual([
+      [1, '接待', 2, 165],
+      [2, '技术支持', 1, 220],
+      [3, '技术支持', 1, 11]
+    ]);
+    expect(total.byAgent['接待'].cost).toBeCloseTo((150 * 2.5 + 15 * 10) / 1_000_000);
+    expect(total.byModel['openai:gpt-4o-mini'].cost).toBeCloseTo((200 * 0.15 + 20 * 0.6) / 1_000_000);
+    expect(total.byModel['unknown-model'].cost).toBe(0);
+    expect(tracker.checkBudget({ maxTokens: 1000 })).toBeNull();
+    expect(tracker.checkBudget({ maxTokens: 1000, maxPromptTokens: 300 })).toEqual({ limit: 'maxPromptTokens', value: 360, max: 300 });
+  });
+
+  it('运行结果按Agent、模型和轮次汇总用量和费用', async () => {
+    const support = new Agent({ name: '技术支持', model: 'gpt-4o-mini', instructions: '你是技术支持。' });
+    const reception = new Agent({
+      name: '接待',
+      model: 'gpt-4o',
+      instructions: '你是接待。',
+      functions: [function transferToSupport() { return new Result({ value: '转接中', agent: support }); }]
+    });
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ name: 'transferToSupport' }], usage: usage(100, 10) },
+      { content: '你好', usage: usage(200, 20) }
+    ], { pricing });
+
+    const result = await harness.run(reception, [{ role: 'user', content: '电脑坏了' }]);
+
+    const runUsage = result.response.usage;
+    expect(runUsage).toMatchObject({ promptTokens: 300, completionTokens: 30, totalTokens: 330, calls: 2 });
+    expect(runUsage.cost).toBeCloseTo((100 * 2.5 + 10 * 10 + 200 * 0.15 + 20 * 0.6) / 1_000_000);
+    expect(Object.keys(runUsage.byAgent)).toEqual(['接待', '技术支持']);
+    expect(runUsage.byAgent['技术支持'].totalTokens).toBe(220);
+    expect(runUsage.byModel['gpt-4o'].totalTokens).toBe(110);
+    expect(runUsage.byTurn.map(turn => [turn.turn, turn.agent, turn.model])).toEqual([[1, '接待', 'gpt-4o'], [2, '技术支持', 'gpt-4o-mini']]);
+
+    const modelCalls = result.response.trace?.filter(event => event.type === 'model_call') ?? [];
+    expect(modelCalls.map(event => event.data.usage.total_tokens)).toEqual([110, 220]);
+    expect(modelCalls[0].data.cost).toBeCloseTo((100 * 2.5 + 10 * 10) / 1_000_000);
+  });
+
+  it('达到预算后不再调用模型，以budget_exceeded结束', async () => {
+    const agent = new Agent({
+      name: '助手',
+      instructions: '你是助手。',
+      functions: [function ping() { return 'pong'; }]
+    });
+    const provider = new MockModelProvider([
+      { tool_calls: [{ name: 'ping' }], usage: usage(80, 20) },
+      { content: '不应到达', usage: usage(80, 20) }
+    ]);
+    const swarm = new Swarm({ modelProvider: provider, budget: { maxTokens: 200 } });
+
+    const events: StreamEvent[] = [];
+    for await (const event of swarm.runStream(agent, [{ role: 'user', content: '你好' }], { budget: { maxTokens: 100 } })) {
+      events.push(event);
+    }
+
+    const complete = events.find(event => event.type === 'complete') as Extract<StreamEvent, { type: 'complete' }>;
+    expect(complete.stopReason).toBe('budget_exceeded');
+    expect(events).toContainEqual({ type: 'budget_exceeded', limit: 'maxTokens', value: 100, max: 100 });
+    expect(provider.requests).toHaveLength(1);
+    // 未调用模型，工具结果保留在历史中，可提高预算后继续
+    expect(complete.messages.map(message => message.role)).toEqual(['user', 'assistant', 'tool']);
+    expect(complete.trace?.some(event => event.type === 'budget_exceeded')).toBe(true);
+  });
+
+  it('按费用设置预算', async () => {
+    const agent = new Agent({ name: '助手', model: 'gpt-4o', instructions: '你是助手。', functions: [function ping() { return 'pong'; }] });
+    const harness = new SwarmTestHarness([
+      { tool_calls: [{ name: 'ping' }], usage: usage(1000, 100) },
+      { content: '不应到达' }
+    ], { pricing, budget: { maxCost: 0.001 } });
+
+    const result = await harness.run(agent, [{ role: 'user', content: '你好' }]);
+
+    result.expectStopReason('budget_exceeded');
+    expect(result.response.usage.cost).toBeCloseTo(0.0035);
+  });
+
+  it('未配置价格表时不能设置费用预算', async () => {
+    const harness = new SwarmTestHarness([{ content: '你好' }]);
+
+    await expect(harness.run(new Agent({ name: '助手', instructions: '' }), [], { budget: { maxCost: 1 } }))
+      .rejects.toThrow('未配置模型价格表');
+  });
+});
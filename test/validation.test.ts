@@ -0,0 +1,153 @@
+import { Agent, GuardrailViolationError, OutputValidationError, OutputValidationPolicy, SwarmTestHarness } from '../src';
+
+describe('输出验证策略', () => {
+  const createAgent = (policy: OutputValidationPolicy, name: string = '助手') => new Agent({
+    name,
+    instructions: '只用JSON回答。',
+    guardrails: {
+      outputValidation: [{ name: 'json', validator: output => output.trim().startsWith('{'), errorMessage: '必须是JSON' }],
+      outputValidationPolicy: policy
+    }
+  });
+  const messages = [{ role: 'user' as const, content: '天气如何' }];
+
+  it('retry附上验证错误重新生成，重试不计入max_turns', async () => {
+    const harness = new SwarmTestHarness([
+      { content: '晴天' },
+      {
+        content: '{"weather":"晴"}',
+        expectRequest: request => {
+          const [failed, repair] = request.messages.slice(-2);
+          expect(failed).toEqual({ role: 'assistant', content: '晴天' });
+          expect(repair.content).toContain('必须是JSON');
+        }
+      }
+    ]);
+
+    const result = await harness.run(createAgent({ action: 'retry', maxRetries: 1 }), messages, { max_turns: 1 });
+
+    result
+      .expectStopReason('final_answer')
+      .expectFinalMessage('{"weather":"晴"}')
+      .expectMessageRoles(['user', 'assistant'])
+      .expectScriptConsumed();
+    expect(result.response.usage.byTurn.map(turn => turn.turn)).toEqual([1]);
+  });
+
+  it('重试用尽后抛出OutputValidationError', async () => {
+    const harness = new SwarmTestHarness([{ content: '晴天' }, { content: '还是晴天' }]);
+
+    await expect(harness.run(createAgent({ action: 'retry', maxRetries: 1 }), messages, { max_turns: 1 }))
+      .rejects.toMatchObject({ name: 'OutputValidationError', attempts: 2 });
+  });
+
+  it('block直接抛出OutputValidationError', async () => {
+    const harness = new SwarmTestHarness([{ content: '晴天' }]);
+
+    await expect(harness.run(createAgent({ action: 'block' }), messages)).rejects.toBeInstanceOf(OutputValidationError);
+  });
+
+  it('fallback使用固定回复替换未通过验证的输出', async () => {
+    const harness = new SwarmTestHarness([{ content: '晴天' }]);
+
+    const result = await harness.run(createAgent({ action: 'fallback', fallbackResponse: '{"error":"无法回答"}' }), messages);
+
+    result.expectStopReason('final_answer').expectFinalMessage('{"error":"无法回答"}');
+  });
+
+  it('fallbackAgent在同一轮内重新回答', async () => {
+    const backup = new Agent({ name: '兜底', instructions: '只用JSON回答。' });
+    const harness = new SwarmTestHarness([{ content: '晴天' }, { content: '{"weather":"晴"}' }]);
+
+    const result = await harness.run(createAgent({ action: 'fallback', fallbackAgent: backup }), messages, { max_turns: 1 });
+
+    result
+      .expectStopReason('final_answer')
+      .expectAgent('兜底')
+      .expectFinalMessage('{"weather":"晴"}')
+      .expectMessageRoles(['user', 'assistant']);
+  });
+
+  it('兜底Agent互为兜底时每轮只转交一次', async () => {
+    const first = createAgent({ action: 'fallback', fallbackResponse: '{"error":"A"}' }, 'A');
+    const second = createAgent({ action: 'fallback', fallbackAgent: first, fallbackResponse: '{"error":"B"}' }, 'B');
+    first.guardrails.outputValidationPolicy = { action: 'fallback', fallbackAgent: second, fallbackResponse: '{"error":"A"}' };
+    const harness = new SwarmTestHarness([{ content: '晴天' }, { content: '阴天' }]);
+
+    const result = await harness.run(first, messages);
+
+    result.expectAgent('B').expectFinalMessage('{"error":"B"}').expectScriptConsumed();
+  });
+});
+
+describe('输入验证', () => {
+  const createAgent = (checked: string[], inputRefusal?: string) => new Agent({
+    name: '助手',
+    instructions: '你是助手。',
+    guardrails: {
+      inputValidation: [{
+        name: 'no_shouting',
+        validator: input => {
+          checked.push(input);
+          return !/^[A-Z ]+$/.test(input);
+        },
+        errorMessage: '请不要全部大写'
+      }],
+      inputRefusal
+    }
+  });
+
+  it('多轮历史只验证最后一条助手消息之后的新用户消息', async () => {
+    const checked: string[] = [];
+    const harness = new SwarmTestHarness([{ content: '好的' }]);
+
+    const result = await harness.run(createAgent(checked), [
+      { role: 'user', content: 'HELLO' },
+      { role: 'assistant', content: '你好' },
+      { role: 'user', content: '查一下订单' },
+      { role: 'user', content: '谢谢' }
+    ]);
+
+    expect(checked).toEqual(['查一下订单', '谢谢']);
+    result.expectStopReason('final_answer').expectFinalMessage('好的');
+  });
+
+  it('未通过时抛出GuardrailViolationError并给出失败消息的索引', async () => {
+    const checked: string[] = [];
+    const harness = new SwarmTestHarness([{ content: '不应到达' }]);
+
+    const error = await harness.swarm.run(createAgent(checked), [
+      { role: 'user', content: '你好' },
+      { role: 'assistant', content: '你好' },
+      { role: 'user', content: 'REFUND NOW' },
+      { role: 'user', content: '订单 A-1' },
+      { role: 'user', content: 'PLEASE' }
+    ]).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GuardrailViolationError);
+    expect(error).toMatchObject({
+      guardrail: 'input_validation',
+      rules: ['no_shouting'],
+      errors: ['请不要全部大写', '请不要全部大写'],
+      messageIndices: [2, 4]
+    });
+    expect(harness.provider.requests).toHaveLength(0);
+  });
+
+  it('设置inputRefusal时以拒绝回复结束运行而不抛出', async () => {
+    const checked: string[] = [];
+    const harness = new SwarmTestHarness([{ content: '不应到达' }]);
+
+    const result = await harness.runStream(createAgent(checked, '抱歉，无法处理该请求。'), [
+      { role: 'user', content: 'REFUND NOW' }
+    ]);
+
+    result
+      .expectStopReason('guardrail_refusal')
+      .expectFinalMessage('抱歉，无法处理该请求。')
+      .expectMessageRoles(['user', 'assistant']);
+    const streamed = result.events.flatMap(event => (event.type === 'content' ? [event.content] : [])).join('');
+    expect(streamed).toBe('抱歉，无法处理该请求。');
+    expect(harness.provider.requests).toHaveLength(0);
+  });
+});